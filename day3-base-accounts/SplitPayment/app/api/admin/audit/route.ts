@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, requireStepUp } from '@/lib/requireSession';
+import { queryAuditLog, type AuditEvent } from '@/lib/audit';
+
+/**
+ * Audit Log API Route (admin only)
+ *
+ * GET - Search auth audit entries, newest first
+ *
+ * Query parameters (all optional):
+ * - address: only entries for this address
+ * - from, to: time range, as ISO 8601 or milliseconds since epoch
+ * - event: e.g. verify.failed
+ * - limit: max entries, a positive integer (default 100, at most 1000)
+ *
+ * Requires AUDIT_SINK=file or sqlite; stdout entries live with the log collector.
+ * Entries carry addresses, IPs and user agents, so reading them also needs a
+ * recent passkey step-up (403 STEP_UP_REQUIRED, see lib/passkeys.ts).
+ */
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Accept either epoch milliseconds or an ISO 8601 date
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Positive integer, capped at MAX_LIMIT; null if invalid
+function parseLimit(value: string | null): number | null {
+  if (!value) {
+    return DEFAULT_LIMIT;
+  }
+  const limit = /^\d+$/.test(value) ? Number(value) : 0;
+  return limit >= 1 ? Math.min(limit, MAX_LIMIT) : null;
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const stepUp = await requireStepUp(request);
+  if (stepUp instanceof NextResponse) return stepUp;
+
+  const params = request.nextUrl.searchParams;
+  const from = parseTime(params.get('from'));
+  const to = parseTime(params.get('to'));
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: 'from and to must be ISO 8601 dates or epoch milliseconds', code: 'INVALID_QUERY' },
+      { status: 400 }
+    );
+  }
+
+  const limit = parseLimit(params.get('limit'));
+  if (limit === null) {
+    return NextResponse.json(
+      { error: 'limit must be a positive whole number', code: 'INVALID_QUERY' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entries = await queryAuditLog({
+      address: params.get('address') ?? undefined,
+      from,
+      to,
+      event: (params.get('event') as AuditEvent | null) ?? undefined,
+      limit,
+    });
+
+    if (!entries) {
+      return NextResponse.json(
+        { error: 'The configured audit sink cannot be queried', code: 'QUERY_UNSUPPORTED' },
+        { status: 501 }
+      );
+    }
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('[Audit] Query failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to query audit log' },
+      { status: 500 }
+    );
+  }
+}
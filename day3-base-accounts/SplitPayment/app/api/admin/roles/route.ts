@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireAdmin, authError, readJsonObject } from '@/lib/requireSession';
+import { listRoleAssignments, grantRole, revokeRole, resolveRole } from '@/lib/roleStore';
+import { getIdentityStore } from '@/lib/identity';
+import { revokeUserSessions } from '@/lib/sessionCookie';
+import { hasRole, isRole, type Role } from '@/lib/roles';
+import { audit } from '@/lib/audit';
+
+/**
+ * Role Management API Route (admin only)
+ *
+ * GET    - List every address with a role, and whether it comes from config or a grant
+ * PUT    - Grant a role: { address, role: "operator" | "admin" } (requires the CSRF header)
+ * DELETE - Remove a granted role: ?address=0x... (requires the CSRF header)
+ *
+ * Roles are attached to sessions at sign-in, so a grant applies from the user's
+ * next sign-in. A change that lowers a user's role signs out all their sessions
+ * right away (in stateless mode access tokens keep the old role until they expire).
+ * Config roles (roles.config.ts, ADMIN_ADDRESSES, OPERATOR_ADDRESSES) can't be
+ * changed here.
+ */
+
+const GRANTABLE_ROLES: Role[] = ['operator', 'admin'];
+
+/**
+ * Apply a role change and sign the owner out if it lowered their role
+ * @returns number of sessions signed out
+ */
+async function applyRoleChange(address: string, change: () => Promise<unknown>): Promise<number> {
+  const owner = await getIdentityStore().findByAddress(address);
+  const before = owner ? await resolveRole(owner.addresses) : null;
+
+  await change();
+
+  if (!owner || !before) {
+    return 0;
+  }
+  const after = await resolveRole(owner.addresses);
+  return hasRole(after, before) ? 0 : revokeUserSessions(owner.id);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json({ assignments: await listRoleAssignments() });
+  } catch (error) {
+    console.error('[Roles] Listing roles failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list roles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { address, role } = await readJsonObject(request);
+    if (typeof address !== 'string' || !isAddress(address, { strict: false })) {
+      return authError('address must be an Ethereum address', 'INVALID_ADDRESS', 400);
+    }
+    if (!isRole(role) || !GRANTABLE_ROLES.includes(role)) {
+      return authError(`role must be one of: ${GRANTABLE_ROLES.join(', ')}`, 'INVALID_ROLE', 400);
+    }
+
+    const signedOut = await applyRoleChange(address, () => grantRole(address, role));
+
+    await audit({
+      event: 'role.granted',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, target: address, role, signedOut },
+    });
+
+    return NextResponse.json({ success: true, signedOut });
+  } catch (error) {
+    console.error('[Roles] Granting role failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to grant role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const address = request.nextUrl.searchParams.get('address');
+    if (!address || !isAddress(address, { strict: false })) {
+      return authError('address must be an Ethereum address', 'INVALID_ADDRESS', 400);
+    }
+
+    let revoked = false;
+    const signedOut = await applyRoleChange(address, async () => {
+      revoked = await revokeRole(address);
+    });
+    if (!revoked) {
+      return authError('No granted role for this address', 'ROLE_NOT_FOUND', 404);
+    }
+
+    await audit({
+      event: 'role.revoked',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, target: address, signedOut },
+    });
+
+    return NextResponse.json({ success: true, signedOut });
+  } catch (error) {
+    console.error('[Roles] Revoking role failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession, authError } from '@/lib/requireSession';
+import { readCredential, clearNonceCookie, describeUser } from '@/lib/signIn';
+import { linkIdentity } from '@/lib/identity';
+import { revokeUserSessions } from '@/lib/sessionCookie';
+import { audit } from '@/lib/audit';
+
+/**
+ * Identity Linking API Route
+ *
+ * Purpose: Attach a second credential to the signed-in user
+ *
+ * POST - Prove another identity (requires the CSRF header):
+ *        a SIWE body { address, message, signature } links a wallet,
+ *        "Authorization: Bearer <Quick Auth token>" links a Farcaster ID
+ *
+ * If the identity already belongs to another user (e.g. the user signed in
+ * with Farcaster and with a wallet separately), that user is merged into the
+ * signed-in one and its sessions are signed out. Two users with different FIDs
+ * can't be merged: 409 IDENTITY_CONFLICT.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const result = await readCredential(request, 'link');
+    if (!result.ok) {
+      return result.response;
+    }
+
+    const { credential } = result;
+    const linked = await linkIdentity(auth.userId, credential.identity);
+
+    if (!linked.ok) {
+      await audit({
+        event: 'identity.link_failed',
+        outcome: 'failure',
+        reason: linked.code,
+        address: auth.address,
+        request,
+        details: { userId: auth.userId, identity: credential.identity },
+      });
+      const response = linked.code === 'IDENTITY_CONFLICT'
+        ? authError('This identity belongs to another Farcaster account', linked.code, 409)
+        : authError('Authentication required', 'UNAUTHENTICATED', 401);
+      if (credential.type === 'siwe') {
+        clearNonceCookie(response);
+      }
+      return response;
+    }
+
+    if (linked.mergedUserId) {
+      await revokeUserSessions(linked.mergedUserId);
+    }
+
+    await audit({
+      event: 'identity.linked',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, identity: credential.identity, mergedUserId: linked.mergedUserId },
+    });
+
+    const response = NextResponse.json(describeUser(linked.user));
+    if (credential.type === 'siwe') {
+      clearNonceCookie(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('[Auth] Linking identity failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to link identity' },
+      { status: 500 }
+    );
+  }
+}
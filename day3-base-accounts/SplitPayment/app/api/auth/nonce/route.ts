@@ -1,6 +1,21 @@
 import { NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { addNonce } from '@/lib/auth';
+import {
+  addNonce,
+  countOutstandingNonces,
+  signNonceCookie,
+  NONCE_COOKIE,
+  nonceCookieOptions,
+} from '@/lib/auth';
+import {
+  checkRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  rateLimits,
+  MAX_OUTSTANDING_NONCES,
+  MAX_OUTSTANDING_NONCES_PER_IP,
+} from '@/lib/rateLimit';
+import { audit } from '@/lib/audit';
 
 /**
  * Nonce Generation API Route
@@ -11,19 +26,42 @@ import { addNonce } from '@/lib/auth';
  * - Each nonce expires after 10 minutes
  * - Can only be used once (consumed during verification)
  * - Prevents replay attacks
+ * - Bound to the requesting browser by a signed, httpOnly cookie
+ *   (verify rejects signatures whose nonce doesn't match the cookie)
+ * - Rate limited per IP, with caps on outstanding nonces per IP and overall
+ *   (see lib/rateLimit.ts)
+ * - Issuance is audited with the nonce redacted (see lib/audit.ts)
  */
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const ip = getClientIp(request);
+    const { allowed, retryAfterMs } = await checkRateLimit(`nonce:ip:${ip}`, rateLimits.nonceIp);
+    if (!allowed) {
+      await audit({ event: 'rate_limited', outcome: 'failure', reason: 'RATE_LIMITED', request, details: { route: 'nonce' } });
+      return rateLimitedResponse(retryAfterMs);
+    }
+
+    if (
+      (await countOutstandingNonces(ip)) >= MAX_OUTSTANDING_NONCES_PER_IP ||
+      (await countOutstandingNonces()) >= MAX_OUTSTANDING_NONCES
+    ) {
+      await audit({ event: 'rate_limited', outcome: 'failure', reason: 'NONCE_CAP_REACHED', request });
+      return rateLimitedResponse(60_000, 'Too many pending sign-in requests, please try again later');
+    }
+
     // Generate cryptographically secure random nonce
     const nonce = crypto.randomBytes(16).toString('hex');
 
-    // Add to shared nonce store with automatic expiration
-    addNonce(nonce);
+    // Add to the configured nonce store with automatic expiration
+    await addNonce(nonce, ip);
+
+    await audit({ event: 'nonce.issued', outcome: 'success', request, details: { nonce } });
 
-    console.log('[Auth] Generated nonce:', nonce);
+    const response = NextResponse.json({ nonce });
+    response.cookies.set(NONCE_COOKIE, signNonceCookie(nonce), nonceCookieOptions);
 
-    return NextResponse.json({ nonce });
+    return response;
   } catch (error) {
     console.error('[Auth] Nonce generation failed:', error);
     return NextResponse.json(
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import { isAddressEqual } from 'viem';
+import { requireSession, requireStepUp, authError, readJsonObject, type AuthenticatedSession } from '@/lib/requireSession';
+import { addChallenge, checkChallengeRateLimit, consumeChallenge, getPasskeyStore, getRelyingParty } from '@/lib/passkeys';
+import { verifySiweCredential, clearNonceCookie } from '@/lib/signIn';
+import { rateLimitedResponse } from '@/lib/rateLimit';
+import { audit } from '@/lib/audit';
+
+/**
+ * Passkey Registration API Route
+ *
+ * Purpose: Add a passkey for the wallet the session signed in with
+ *
+ * GET  - WebAuthn creation options for navigator.credentials.create
+ *        (startRegistration in @simplewebauthn/browser); challenges are
+ *        rate limited per session, 429 RATE_LIMITED
+ * POST - Verify { response, siwe } and store the passkey (requires the CSRF
+ *        header); returns { id }. response is the authenticator's answer,
+ *        siwe a { address, message, signature } body as for sign-in.
+ *
+ * The first passkey for an address needs a fresh SIWE signature from that
+ * wallet (a nonce from /api/auth/nonce), so a stolen session cookie alone can't
+ * enrol an authenticator: 403 WALLET_PROOF_REQUIRED without one. An address
+ * that already has a passkey can only add another after stepping up with an
+ * existing one. Registering doesn't step the session up; confirm with the new
+ * passkey for that. Farcaster sessions have no address: 403 PASSKEY_UNAVAILABLE.
+ */
+
+const RP_NAME = 'SplitPayment';
+
+/**
+ * Session allowed to register a passkey for its address
+ * first is set when the address has no passkey yet
+ */
+async function requireRegistration(
+  request: NextRequest
+): Promise<(AuthenticatedSession & { address: string; first: boolean }) | NextResponse> {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { address } = auth;
+  if (!address) {
+    return authError('Sign in with a wallet to use a passkey', 'PASSKEY_UNAVAILABLE', 403);
+  }
+
+  const existing = await getPasskeyStore().listByAddress(address);
+  if (existing.length > 0) {
+    const stepUp = await requireStepUp(request);
+    if (stepUp instanceof NextResponse) return stepUp;
+  }
+  return { ...auth, address, first: existing.length === 0 };
+}
+
+/**
+ * Check a fresh SIWE signature from the session's own wallet
+ * @returns null when it checks out, else the response to send
+ */
+async function verifyWalletProof(
+  request: NextRequest,
+  auth: AuthenticatedSession & { address: string },
+  siwe: unknown
+): Promise<NextResponse | null> {
+  if (!siwe || typeof siwe !== 'object') {
+    return authError('Sign with your wallet to add your first passkey', 'WALLET_PROOF_REQUIRED', 403);
+  }
+
+  const result = await verifySiweCredential(request, siwe, 'passkey');
+  if (!result.ok) {
+    return result.response;
+  }
+  const { credential } = result;
+  if (
+    credential.type !== 'siwe' ||
+    !isAddressEqual(credential.identity.address as `0x${string}`, auth.address as `0x${string}`)
+  ) {
+    await audit({
+      event: 'passkey.failed',
+      outcome: 'failure',
+      reason: 'ADDRESS_MISMATCH',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, action: 'register' },
+    });
+    return authError('Sign with the wallet you signed in with', 'ADDRESS_MISMATCH', 401);
+  }
+  return null;
+}
+
+/**
+ * Creation options, with a challenge bound to this session
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRegistration(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { allowed, retryAfterMs } = await checkChallengeRateLimit(auth.session.id);
+    if (!allowed) {
+      return rateLimitedResponse(retryAfterMs);
+    }
+
+    const existing = await getPasskeyStore().listByAddress(auth.address);
+    const options = await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID: getRelyingParty(request).rpID,
+      userName: auth.address,
+      userID: isoBase64URL.toBuffer(isoBase64URL.fromUTF8String(auth.userId)),
+      attestationType: 'none',
+      // Don't enrol the same authenticator twice
+      excludeCredentials: existing.map(({ id, transports }) => ({ id, transports })),
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+    });
+    await addChallenge(auth.session.id, options.challenge);
+
+    return NextResponse.json(options);
+  } catch (error) {
+    console.error('[Passkey] Registration options failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to start passkey registration' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Verify the new credential and store it
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRegistration(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await readJsonObject(request);
+    const { origin, rpID } = getRelyingParty(request);
+
+    if (auth.first) {
+      const rejected = await verifyWalletProof(request, auth, body.siwe);
+      if (rejected) {
+        return rejected;
+      }
+    }
+
+    let credential;
+    try {
+      const verification = await verifyRegistrationResponse({
+        response: body.response as RegistrationResponseJSON,
+        expectedChallenge: (challenge) => consumeChallenge(auth.session.id, challenge),
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+      });
+      credential = verification.verified ? verification.registrationInfo.credential : null;
+    } catch (error) {
+      console.warn('[Passkey] Registration rejected:', error);
+    }
+
+    if (!credential || (await getPasskeyStore().get(credential.id))) {
+      await audit({
+        event: 'passkey.failed',
+        outcome: 'failure',
+        reason: 'PASSKEY_VERIFICATION_FAILED',
+        address: auth.address,
+        request,
+        details: { userId: auth.userId, action: 'register' },
+      });
+      const response = authError('Passkey registration could not be verified', 'PASSKEY_VERIFICATION_FAILED', 400);
+      if (auth.first) {
+        clearNonceCookie(response);
+      }
+      return response;
+    }
+
+    const now = Date.now();
+    await getPasskeyStore().add({
+      id: credential.id,
+      userId: auth.userId,
+      address: auth.address,
+      publicKey: isoBase64URL.fromBuffer(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      createdAt: now,
+      lastUsedAt: now,
+    });
+    await audit({
+      event: 'passkey.registered',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, credentialId: credential.id },
+    });
+
+    const response = NextResponse.json({ id: credential.id });
+    if (auth.first) {
+      clearNonceCookie(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('[Passkey] Registration failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to register passkey' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/requireSession';
+import { getPasskeyStore, getStepUpExpiry } from '@/lib/passkeys';
+
+/**
+ * Passkey Status API Route
+ *
+ * Purpose: Tell the client whether it can step up and whether it already has
+ *
+ * GET - { registered, passkeys: [{ id, createdAt, lastUsedAt }], stepUpExpiresAt }
+ *       for the address the session signed in with; stepUpExpiresAt is null
+ *       when the session needs to confirm with a passkey again
+ *
+ * See lib/passkeys.ts for the step-up flow.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const passkeys = auth.address ? await getPasskeyStore().listByAddress(auth.address) : [];
+
+    return NextResponse.json({
+      registered: passkeys.length > 0,
+      passkeys: passkeys.map(({ id, createdAt, lastUsedAt }) => ({ id, createdAt, lastUsedAt })),
+      stepUpExpiresAt: await getStepUpExpiry(auth.session.id),
+    });
+  } catch (error) {
+    console.error('[Passkey] Status check failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to load passkeys' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import { requireSession, authError, readJsonObject } from '@/lib/requireSession';
+import {
+  addChallenge,
+  checkChallengeRateLimit,
+  consumeChallenge,
+  getPasskeyStore,
+  getRelyingParty,
+  getStepUpExpiry,
+  recordStepUp,
+} from '@/lib/passkeys';
+import { rateLimitedResponse } from '@/lib/rateLimit';
+import { audit } from '@/lib/audit';
+
+/**
+ * Passkey Step-up API Route
+ *
+ * Purpose: Confirm a sensitive action with the passkey registered to the
+ * session's address
+ *
+ * GET  - WebAuthn request options for navigator.credentials.get
+ *        (startAuthentication in @simplewebauthn/browser), allowing the
+ *        address's passkeys; 404 PASSKEY_NOT_REGISTERED if it has none,
+ *        429 RATE_LIMITED past the session's challenge limit
+ * POST - Verify the assertion (requires the CSRF header); the session is then
+ *        stepped up until the returned stepUpExpiresAt
+ *
+ * Routes gated with requireStepUp() accept the session until then.
+ */
+
+/**
+ * Request options, with a challenge bound to this session
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { allowed, retryAfterMs } = await checkChallengeRateLimit(auth.session.id);
+    if (!allowed) {
+      return rateLimitedResponse(retryAfterMs);
+    }
+
+    const passkeys = auth.address ? await getPasskeyStore().listByAddress(auth.address) : [];
+    if (passkeys.length === 0) {
+      return authError('Register a passkey first', 'PASSKEY_NOT_REGISTERED', 404);
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: getRelyingParty(request).rpID,
+      allowCredentials: passkeys.map(({ id, transports }) => ({ id, transports })),
+      userVerification: 'required',
+    });
+    await addChallenge(auth.session.id, options.challenge);
+
+    return NextResponse.json(options);
+  } catch (error) {
+    console.error('[Passkey] Step-up options failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to start passkey confirmation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Verify the assertion and step the session up
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await readJsonObject(request);
+    const { origin, rpID } = getRelyingParty(request);
+
+    // Only a passkey registered to the address this session signed in with
+    const passkey = typeof body.id === 'string' ? await getPasskeyStore().get(body.id) : null;
+    let newCounter: number | null = null;
+    if (passkey && passkey.address === auth.address) {
+      try {
+        const verification = await verifyAuthenticationResponse({
+          response: body as unknown as AuthenticationResponseJSON,
+          expectedChallenge: (challenge) => consumeChallenge(auth.session.id, challenge),
+          expectedOrigin: origin,
+          expectedRPID: rpID,
+          credential: {
+            id: passkey.id,
+            publicKey: isoBase64URL.toBuffer(passkey.publicKey),
+            counter: passkey.counter,
+            transports: passkey.transports,
+          },
+          requireUserVerification: true,
+        });
+        newCounter = verification.verified ? verification.authenticationInfo.newCounter : null;
+      } catch (error) {
+        console.warn('[Passkey] Step-up rejected:', error);
+      }
+    }
+
+    if (!passkey || newCounter === null) {
+      await audit({
+        event: 'passkey.failed',
+        outcome: 'failure',
+        reason: 'PASSKEY_VERIFICATION_FAILED',
+        address: auth.address,
+        request,
+        details: { userId: auth.userId, action: 'step-up', credentialId: passkey?.id },
+      });
+      return authError('Passkey confirmation could not be verified', 'PASSKEY_VERIFICATION_FAILED', 401);
+    }
+
+    await getPasskeyStore().markUsed(passkey.id, newCounter, Date.now());
+    await recordStepUp(auth.session.id);
+
+    const stepUpExpiresAt = await getStepUpExpiry(auth.session.id);
+    await audit({
+      event: 'passkey.stepped_up',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, credentialId: passkey.id, stepUpExpiresAt },
+    });
+
+    return NextResponse.json({ stepUpExpiresAt });
+  } catch (error) {
+    console.error('[Passkey] Step-up failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm with passkey' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSession, setRefreshedCookies } from '@/lib/sessionCookie';
+import { authError } from '@/lib/requireSession';
+import { readRefreshToken } from '@/lib/tokens';
+import { getUser } from '@/lib/identity';
+import { describeUser } from '@/lib/signIn';
+import { REFRESH_COOKIE } from '@/lib/authCookies';
+import { audit } from '@/lib/audit';
+
+/**
+ * Token Refresh API Route
+ *
+ * Purpose: Rotate the refresh token and issue a new access token (SESSION_MODE=stateless)
+ *
+ * Security:
+ * - Refresh token is an httpOnly, SameSite=strict cookie scoped to /api/auth
+ * - Each refresh token works once; reusing a rotated one revokes the whole sign-in
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const result = await refreshSession(request);
+    // Linked identities can change during a session, so they come from the user record
+    const user = result.ok ? await getUser(result.tokens.session.userId) : null;
+
+    const response = result.ok
+      ? NextResponse.json({
+          ...(user && describeUser(user)),
+          address: result.tokens.session.address,
+          chainId: result.tokens.session.chainId,
+          role: result.tokens.session.role,
+          claims: result.tokens.session.claims,
+          scopes: result.tokens.session.scopes,
+          accessExpiresAt: result.tokens.accessExpiresAt,
+        })
+      : authError(
+          result.code === 'REFRESH_TOKEN_REUSED'
+            ? 'Refresh token was already used; please sign in again'
+            : 'Invalid or expired refresh token',
+          result.code,
+          401
+        );
+    setRefreshedCookies(response, result);
+
+    if (result.ok) {
+      const { session } = result.tokens;
+      await audit({
+        event: 'session.refreshed',
+        outcome: 'success',
+        address: session.address,
+        request,
+        details: { userId: session.userId },
+      });
+    } else {
+      // Pages call refresh speculatively, so only a presented refresh token is worth recording
+      const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+      if (refreshToken) {
+        await audit({
+          event: 'session.refresh_failed',
+          outcome: 'failure',
+          reason: result.code,
+          request,
+          details: { userId: readRefreshToken(refreshToken)?.userId },
+        });
+      }
+    }
+
+    return response;
+  } catch (error) {
+    console.error('[Auth] Token refresh failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSessionFromRequest,
+  getSessionToken,
+  clearSessionCookies,
+  endSession,
+  verifyCsrf,
+} from '@/lib/sessionCookie';
+import { getSessionMode } from '@/lib/tokens';
+import { getUser } from '@/lib/identity';
+import { signIn, describeUser } from '@/lib/signIn';
+import { authError } from '@/lib/requireSession';
+import { audit } from '@/lib/audit';
+
+/**
+ * Session API Route
+ *
+ * Purpose: Sign in, restore and end cookie-backed sessions
+ *
+ * POST   - Sign in with either credential (see lib/signIn.ts):
+ *          a SIWE body { address, message, signature }, or a Farcaster
+ *          Quick Auth token in "Authorization: Bearer <token>"
+ * GET    - Return the signed-in user, its linked identities, the session's chain and role
+ * DELETE - Sign out (requires the CSRF header)
+ *
+ * Both credentials resolve to the same user once linked (POST /api/auth/link),
+ * so a user is recognised inside a Farcaster client and in a browser alike
+ *
+ * Security:
+ * - The session token is only sent as an httpOnly cookie, never in the URL or body
+ * - Sessions live in the shared session store (lib/sessions.ts), only token hashes are stored
+ * - Mutations require a CSRF header matching the csrf_token cookie
+ */
+
+/**
+ * Sign In
+ * Verifies the credential, creates the user on first sign-in and sets the session cookies
+ */
+export async function POST(request: NextRequest) {
+  try {
+    return await signIn(request);
+  } catch (error) {
+    console.error('[Auth] Sign in failed:', error);
+    return NextResponse.json(
+      { error: 'Authentication failed', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Current Session
+ * Used by the client to restore the session on page load
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    const user = session ? await getUser(session.userId) : null;
+
+    if (!session || !user) {
+      const response = NextResponse.json(
+        { authenticated: false },
+        { status: 401 }
+      );
+      // Drop stale cookies so the browser stops sending them
+      if (getSessionToken(request)) {
+        clearSessionCookies(response);
+      }
+      return response;
+    }
+
+    // In stateless mode expiresAt is the access token expiry, so the client knows when to refresh
+    return NextResponse.json({
+      authenticated: true,
+      ...describeUser(user),
+      address: session.address,
+      chainId: session.chainId,
+      role: session.role,
+      claims: session.claims,
+      scopes: session.scopes,
+      expiresAt: session.expiresAt,
+      mode: getSessionMode(),
+    });
+  } catch (error) {
+    console.error('[Auth] Session check failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign Out
+ * Invalidate the session cookie, or every session for its user with ?allDevices=true
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!verifyCsrf(request)) {
+      await audit({ event: 'access.denied', outcome: 'failure', reason: 'CSRF_MISMATCH', request, details: { route: 'sign-out' } });
+      return authError('Invalid CSRF token', 'CSRF_MISMATCH', 403);
+    }
+
+    const allDevices = request.nextUrl.searchParams.get('allDevices') === 'true';
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Signed out successfully',
+    });
+    const ended = await endSession(request, response, allDevices);
+    await audit({
+      event: 'session.signed_out',
+      outcome: 'success',
+      address: ended?.address,
+      request,
+      details: { userId: ended?.userId, allDevices },
+    });
+
+    return response;
+  } catch (error) {
+    console.error('[Auth] Sign out failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession, authError } from '@/lib/requireSession';
+import { revokeActiveSession, clearSessionCookies } from '@/lib/sessionCookie';
+import { audit } from '@/lib/audit';
+
+/**
+ * Session Revocation API Route
+ *
+ * DELETE - Sign out one of the caller's sessions (requires the CSRF header)
+ *
+ * Revoking the current session also clears this browser's cookies
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    // Sessions of other users look the same as unknown ones
+    if (!(await revokeActiveSession(auth.userId, id))) {
+      return authError('Session not found', 'SESSION_NOT_FOUND', 404);
+    }
+
+    await audit({
+      event: 'session.revoked',
+      outcome: 'success',
+      address: auth.address,
+      request,
+      details: { sessionId: id, userId: auth.userId, current: id === auth.session.id },
+    });
+
+    const response = NextResponse.json({ success: true });
+    if (id === auth.session.id) {
+      clearSessionCookies(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('[Auth] Revoking session failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import { requireSession, authError } from '@/lib/requireSession';
+import { clearSessionCookies, listActiveSessions, revokeAddressSessions } from '@/lib/sessionCookie';
+import { audit } from '@/lib/audit';
+
+/**
+ * Active Sessions API Route
+ *
+ * Purpose: Show the caller where they are signed in
+ *
+ * GET    - List the caller's active sessions, newest activity first
+ * DELETE ?address=0x... - Sign out every session that signed in with one of
+ *          the caller's linked wallets, e.g. one that was compromised (requires
+ *          the CSRF header); returns { revoked }. Sessions signed in with the
+ *          user's other wallets or Farcaster stay.
+ *
+ * Each entry has the sign-in time, last activity, user agent and approximate IP
+ * (host part masked). Revoke one with DELETE /api/auth/sessions/:id
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const sessions = await listActiveSessions(auth.userId);
+
+    return NextResponse.json({
+      sessions: sessions
+        .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+        .map((session) => ({
+          id: session.id,
+          address: session.address,
+          chainId: session.chainId,
+          fid: session.fid,
+          userAgent: session.userAgent,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          expiresAt: session.expiresAt,
+          current: session.id === auth.session.id,
+        })),
+    });
+  } catch (error) {
+    console.error('[Auth] Listing sessions failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = await requireSession(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const address = request.nextUrl.searchParams.get('address');
+    if (!address || !isAddress(address, { strict: false })) {
+      return authError('address must be a wallet address', 'INVALID_ADDRESS', 400);
+    }
+    const wallet = getAddress(address);
+    // Other users' wallets look the same as unlinked ones
+    if (!auth.addresses.includes(wallet)) {
+      return authError('Wallet is not linked to the signed-in user', 'ADDRESS_NOT_LINKED', 404);
+    }
+
+    const revoked = await revokeAddressSessions(wallet);
+    await audit({
+      event: 'session.revoked',
+      outcome: 'success',
+      address: wallet,
+      request,
+      details: { userId: auth.userId, revoked, current: auth.address === wallet },
+    });
+
+    const response = NextResponse.json({ revoked });
+    if (auth.address === wallet) {
+      clearSessionCookies(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('[Auth] Revoking wallet sessions failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    );
+  }
+}
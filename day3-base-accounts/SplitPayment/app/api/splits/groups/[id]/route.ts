@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSplitGroupOwner, requireStepUp, authError, readJsonObject } from '@/lib/requireSession';
+import {
+  checkSplitGroup,
+  deleteSplitGroup,
+  getSplitGroup,
+  isNameTaken,
+  listSplitGroups,
+  samePayout,
+  updateSplitGroup,
+} from '@/lib/splitGroups';
+
+/**
+ * Saved Split Group API Route
+ *
+ * GET    - One of the signed-in wallet's groups: { group }
+ * PUT    - Replace it: { name, mode, total, token, recipients } (requires the CSRF header)
+ * DELETE - Delete it (requires the CSRF header and a step-up)
+ *
+ * Changing what a saved group pays out (recipients, their values, the mode,
+ * total or token) is a sensitive action, and so is deleting it, since a group
+ * deleted and saved again under its name would change it just the same: the
+ * session must have confirmed with a passkey recently, otherwise 403
+ * STEP_UP_REQUIRED (see requireStepUp). Renaming and relabelling don't.
+ *
+ * Groups of other wallets look the same as unknown ones: 404 SPLIT_GROUP_NOT_FOUND.
+ */
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => authError('Split group not found', 'SPLIT_GROUP_NOT_FOUND', 404);
+
+export async function GET(request: NextRequest, { params }: Params) {
+  const auth = await requireSplitGroupOwner(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const group = await getSplitGroup(auth.address, (await params).id);
+    return group ? NextResponse.json({ group }) : notFound();
+  } catch (error) {
+    console.error('[SplitGroups] Reading group failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to read split group' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  const auth = await requireSplitGroupOwner(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const group = await getSplitGroup(auth.address, (await params).id);
+    if (!group) {
+      return notFound();
+    }
+
+    const check = checkSplitGroup(await readJsonObject(request));
+    if (!check.ok) {
+      return authError(check.error, 'INVALID_SPLIT_GROUP', 400);
+    }
+
+    if (!samePayout(group, check.group)) {
+      const stepUp = await requireStepUp(request);
+      if (stepUp instanceof NextResponse) return stepUp;
+    }
+
+    if (isNameTaken(await listSplitGroups(auth.address), check.group.name, group.id)) {
+      return authError(`You already have a group named "${check.group.name}"`, 'SPLIT_GROUP_EXISTS', 409);
+    }
+
+    return NextResponse.json({ group: await updateSplitGroup(group, check.group) });
+  } catch (error) {
+    console.error('[SplitGroups] Updating group failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to update split group' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireSplitGroupOwner(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const group = await getSplitGroup(auth.address, (await params).id);
+    if (!group) {
+      return notFound();
+    }
+
+    const stepUp = await requireStepUp(request);
+    if (stepUp instanceof NextResponse) return stepUp;
+
+    if (!(await deleteSplitGroup(auth.address, group.id))) {
+      return notFound();
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[SplitGroups] Deleting group failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete split group' },
+      { status: 500 }
+    );
+  }
+}
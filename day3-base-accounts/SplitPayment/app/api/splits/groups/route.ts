@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSplitGroupOwner, authError, readJsonObject } from '@/lib/requireSession';
+import {
+  MAX_SPLIT_GROUPS,
+  checkSplitGroup,
+  createSplitGroup,
+  isNameTaken,
+  listSplitGroups,
+} from '@/lib/splitGroups';
+
+/**
+ * Saved Split Groups API Route
+ *
+ * GET  - The signed-in wallet's groups: { groups }
+ * POST - Save a new group: { name, mode, total, token, recipients } (requires the CSRF header)
+ *        -> 201 { group }
+ *
+ * Requires the splits/store scope, granted with a ReCap at sign-in
+ * (lib/recaps.ts). Groups belong to the address the session signed in with
+ * (see lib/splitGroups.ts); Farcaster sessions have none: 403 SPLIT_GROUPS_UNAVAILABLE.
+ *
+ * Errors: 400 INVALID_SPLIT_GROUP, 409 SPLIT_GROUP_EXISTS (name in use),
+ * 409 SPLIT_GROUP_LIMIT (MAX_SPLIT_GROUPS reached). See lib/splitGroups.ts.
+ */
+
+export async function GET(request: NextRequest) {
+  const auth = await requireSplitGroupOwner(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json({ groups: await listSplitGroups(auth.address) });
+  } catch (error) {
+    console.error('[SplitGroups] Listing groups failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list split groups' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireSplitGroupOwner(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const check = checkSplitGroup(await readJsonObject(request));
+    if (!check.ok) {
+      return authError(check.error, 'INVALID_SPLIT_GROUP', 400);
+    }
+
+    const groups = await listSplitGroups(auth.address);
+    if (isNameTaken(groups, check.group.name)) {
+      return authError(`You already have a group named "${check.group.name}"`, 'SPLIT_GROUP_EXISTS', 409);
+    }
+    if (groups.length >= MAX_SPLIT_GROUPS) {
+      return authError(`You can save up to ${MAX_SPLIT_GROUPS} groups`, 'SPLIT_GROUP_LIMIT', 409);
+    }
+
+    const group = await createSplitGroup(auth.address, check.group);
+    return NextResponse.json({ group }, { status: 201 });
+  } catch (error) {
+    console.error('[SplitGroups] Saving group failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to save split group' },
+      { status: 500 }
+    );
+  }
+}
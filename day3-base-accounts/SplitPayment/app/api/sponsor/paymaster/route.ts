@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, isAddressEqual } from 'viem';
+import { checkRateLimit } from '@/lib/rateLimit';
+import {
+  PAYMASTER_DATA_METHOD,
+  PAYMASTER_STUB_METHOD,
+  SPONSOR_DAY_MS,
+  getPaymasterUrl,
+  readSponsorTicket,
+} from '@/lib/sponsor';
+
+/**
+ * Paymaster Proxy API Route
+ *
+ * Purpose: Forward the wallet's ERC-7677 paymaster calls to PAYMASTER_URL
+ *
+ * POST ?ticket=<ticket from POST /api/sponsor> - JSON-RPC request:
+ *   pm_getPaymasterStubData - gas estimation, not counted
+ *   pm_getPaymasterData     - one sponsored transaction, counted against the
+ *                             ticket's daily allowance
+ *
+ * The wallet calls this without the session cookie; the signed ticket says who
+ * is sponsored (see lib/sponsor.ts). User operations must come from the
+ * ticket's address. Failures are JSON-RPC errors, which the wallet shows.
+ */
+
+const ALLOWED_METHODS = [PAYMASTER_STUB_METHOD, PAYMASTER_DATA_METHOD];
+
+function rpcError(id: unknown, code: number, message: string, status: number) {
+  return NextResponse.json({ jsonrpc: '2.0', id: id ?? null, error: { code, message } }, { status });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const id = body?.id;
+
+  const ticket = readSponsorTicket(request.nextUrl.searchParams.get('ticket'));
+  if (!ticket) {
+    return rpcError(id, -32001, 'Sponsorship ticket is invalid or expired', 401);
+  }
+
+  try {
+    const paymasterUrl = getPaymasterUrl();
+    if (!paymasterUrl) {
+      return rpcError(id, -32003, 'Paymaster not configured', 503);
+    }
+
+    const { method, params } = body ?? {};
+    if (!ALLOWED_METHODS.includes(method)) {
+      return rpcError(id, -32601, `Method not supported: ${method}`, 400);
+    }
+
+    const sender = Array.isArray(params) ? params[0]?.sender : undefined;
+    if (typeof sender !== 'string' || !isAddress(sender) || !isAddressEqual(sender, ticket.address as `0x${string}`)) {
+      return rpcError(id, -32602, 'Only transactions from the signed-in wallet are sponsored', 403);
+    }
+
+    if (method === PAYMASTER_DATA_METHOD) {
+      const { allowed } = await checkRateLimit(`sponsor:${ticket.userId}`, {
+        capacity: ticket.maxPerDay,
+        refillMs: SPONSOR_DAY_MS,
+      });
+      if (!allowed) {
+        return rpcError(id, -32004, `You can send up to ${ticket.maxPerDay} sponsored transactions per day`, 429);
+      }
+    }
+
+    const response = await fetch(paymasterUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+    });
+    return NextResponse.json(await response.json(), { status: response.status });
+  } catch (error) {
+    console.error('[Sponsor] Paymaster request failed:', error);
+    return rpcError(id, -32603, 'Paymaster request failed', 502);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireClaim, requireScope, authError } from '@/lib/requireSession';
+import { SENDER_HEADER } from '@/lib/authCookies';
+import { getRequestOrigin } from '@/lib/proxy';
+import { SPONSOR_CLAIM, getPaymasterUrl, issueSponsorTicket, sponsorAllowance } from '@/lib/sponsor';
+
+/**
+ * Sponsored Transaction API Route
+ *
+ * Purpose: Hand out a paymaster URL for sponsoring the user's transactions
+ *
+ * POST - Returns { url } for the wallet's paymasterService capability (requires the CSRF header)
+ *
+ * The URL points at this app's paymaster proxy (/api/sponsor/paymaster) with a
+ * short-lived ticket, never at the paymaster itself; see lib/sponsor.ts. The
+ * ticket is for the x-sender-address wallet (one of the user's, checked by
+ * requireSession) or else the address the session signed in with.
+ *
+ * Requires the paymaster/sponsor scope, granted with a ReCap at sign-in
+ * (lib/recaps.ts). Its maxPerDay caveat limits how many transactions the user
+ * can sponsor per day, capped by SPONSOR_MAX_PER_DAY; the proxy counts them.
+ * Also requires the usdcHolder claim met at sign-in (SPONSOR_CLAIM), since gas
+ * is paid from the user's USDC: 403 CLAIM_REQUIRED without it.
+ */
+
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'paymaster/sponsor');
+  if (auth instanceof NextResponse) return auth;
+  const holder = await requireClaim(request, SPONSOR_CLAIM);
+  if (holder instanceof NextResponse) return holder;
+
+  try {
+    if (!getPaymasterUrl()) {
+      return authError('Paymaster not configured', 'PAYMASTER_NOT_CONFIGURED', 503);
+    }
+
+    const address = request.headers.get(SENDER_HEADER) ?? auth.address;
+    if (!address) {
+      return authError('Sign in with a wallet to sponsor transactions', 'SPONSOR_UNAVAILABLE', 403);
+    }
+
+    const ticket = issueSponsorTicket({
+      userId: auth.userId,
+      address,
+      maxPerDay: sponsorAllowance(auth.session.scopes),
+    });
+    const url = new URL('/api/sponsor/paymaster', getRequestOrigin(request).origin);
+    url.searchParams.set('ticket', ticket);
+
+    return NextResponse.json({ url: url.toString() });
+  } catch (error) {
+    console.error('[Sponsor] Sponsorship failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to sponsor transaction' },
+      { status: 500 }
+    );
+  }
+}
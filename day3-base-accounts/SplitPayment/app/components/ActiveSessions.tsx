@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { csrfHeaders, senderHeaders } from '@/lib/authCookies';
+import styles from './ProfileDashboard.module.css';
+
+/**
+ * Active Sessions Panel
+ *
+ * Lists where the signed-in user has a session, whether signed in with a
+ * wallet or with Farcaster, and lets the user sign out any of them.
+ * Hidden when there is no session.
+ */
+
+interface ActiveSession {
+  id: string;
+  address: string | null;
+  chainId: number | null;
+  fid: number | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+// Rough "Browser on OS" label from a user agent
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+// How the session signed in
+function describeCredential(session: ActiveSession): string {
+  if (session.fid !== null) {
+    return `Farcaster #${session.fid}`;
+  }
+  return session.address ? `${session.address.slice(0, 6)}…${session.address.slice(-4)}` : 'Wallet';
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+export function ActiveSessions() {
+  const { address } = useAccount();
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions', { headers: senderHeaders(address) });
+      if (response.status === 401) {
+        setSessions(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load sessions');
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+      setError(null);
+    } catch (err) {
+      console.error('[ActiveSessions] Load failed:', err);
+      setError('Could not load your sessions');
+    }
+  }, [address]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revoke = async (session: ActiveSession) => {
+    setRevokingId(session.id);
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+        headers: { ...csrfHeaders(), ...senderHeaders(address) },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to revoke session');
+      }
+      if (session.current) {
+        // This browser was signed out; start over
+        window.location.reload();
+        return;
+      }
+      await loadSessions();
+    } catch (err) {
+      console.error('[ActiveSessions] Revoke failed:', err);
+      setError('Could not sign out that session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // Only shown with a SIWE session
+  if (!sessions) {
+    return null;
+  }
+
+  return (
+    <div className={styles.infoBox}>
+      <h3 className={styles.infoTitle}>Active sessions</h3>
+      <p className={styles.infoText}>
+        Devices signed in to your account. Sign out any you don&apos;t recognize.
+      </p>
+
+      {error && <p className={styles.searchResultError}>{error}</p>}
+
+      <ul className={styles.sessionList}>
+        {sessions.map((session) => (
+          <li key={session.id} className={styles.sessionItem}>
+            <div className={styles.sessionInfo}>
+              <span className={styles.sessionDevice}>
+                {describeDevice(session.userAgent)}
+                {session.current && <span className={styles.sessionCurrent}>This device</span>}
+              </span>
+              <span className={styles.sessionMeta}>
+                {describeCredential(session)} · {session.ip ? `Near ${session.ip} · ` : ''}
+                Signed in {formatTime(session.createdAt)} · Last seen {formatTime(session.lastSeenAt)}
+              </span>
+            </div>
+            <button
+              type="button"
+              className={styles.searchButton}
+              onClick={() => revoke(session)}
+              disabled={revokingId === session.id}
+            >
+              {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
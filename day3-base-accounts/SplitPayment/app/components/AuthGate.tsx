@@ -1,10 +1,13 @@
 "use client";
 
+import { useState } from 'react';
 import { useAccount, useConnect, useDisconnect } from 'wagmi';
 import { SplitPaymentEnhanced } from "./SplitPaymentEnhanced";
 import { ProfileDashboard } from "./ProfileDashboard";
 import { Identity, Avatar, Name, Badge } from '@coinbase/onchainkit/identity';
 import { base } from 'viem/chains';
+import { useAuthContext } from "./AuthProvider";
+import { RoleGate } from "./RoleGate";
 import styles from "./SplitPayment.module.css";
 
 // Coinbase Verified attestation schema ID
@@ -13,25 +16,57 @@ const COINBASE_VERIFIED_SCHEMA_ID = "0xf8b05c79f090979bf4a80270aba232dff11a10d9c
 /**
  * AuthGate Component
  *
- * Purpose: Wallet connection gate for Split Payment app
+ * Purpose: Gate for Split Payment app (connect wallet, sign in, link the wallet)
  *
  * Flow:
  * 1. User sees "Connect Wallet" button
  * 2. Clicks → Wallet selection modal
- * 3. After successful connection → Show Split Payment UI
- * 4. User can disconnect anytime
+ * 3. After successful connection → "Sign in with Base" (SIWE, see useAuth),
+ *    or "Sign in with Farcaster" inside a Farcaster client
+ * 4. If the connected wallet isn't linked to the user yet (e.g. after Farcaster
+ *    sign-in) → "Link this wallet" with a SIWE signature
+ * 5. After sign-in → Show Profile and Split Payment UI
+ * 6. User can sign out and disconnect anytime
  *
  * Features:
  * - Wagmi-based wallet connection
  * - Support for multiple wallets (Coinbase Wallet extension, injected wallets, smart wallets)
- * - Automatic reconnection
- * - Disconnect functionality
+ * - Automatic reconnection and session restore
+ * - Sign-in state shared through AuthProvider and synced across tabs
  */
 
 export function AuthGate() {
   const { address, isConnected, isConnecting } = useAccount();
   const { connect, connectors, error, isPending } = useConnect();
   const { disconnect } = useDisconnect();
+  const auth = useAuthContext();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    await auth.signIn();
+    setIsSigningIn(false);
+  };
+
+  const handleFarcasterSignIn = async () => {
+    setIsSigningIn(true);
+    await auth.signInWithFarcaster();
+    setIsSigningIn(false);
+  };
+
+  const handleLinkWallet = async () => {
+    setIsSigningIn(true);
+    await auth.linkWallet();
+    setIsSigningIn(false);
+  };
+
+  // Sign out of the app session as well as the wallet
+  const handleDisconnect = async () => {
+    if (auth.isAuthenticated) {
+      await auth.signOut();
+    }
+    disconnect();
+  };
 
   // Not connected - show wallet connection options
   if (!isConnected) {
@@ -147,7 +182,158 @@ export function AuthGate() {
     );
   }
 
-  // Connected - show profile + split payment with disconnect option
+  // Connected - restoring an existing session
+  if (auth.isLoading && !isSigningIn) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.card}>
+          <p className={styles.description}>Checking your session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Connected but not signed in - ask for a SIWE signature
+  if (!auth.isAuthenticated) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.card}>
+          <h2 className={styles.title}>Sign in with Base</h2>
+          <p className={styles.description} style={{ marginBottom: "2rem" }}>
+            Sign a message with your wallet to prove you own it. This doesn&apos;t cost gas or
+            send a transaction.
+          </p>
+
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: "0.75rem",
+              padding: "1rem 0",
+            }}
+          >
+            <button
+              onClick={handleSignIn}
+              disabled={isSigningIn}
+              className={styles.button}
+              style={{
+                width: "100%",
+                maxWidth: "300px",
+                background: "linear-gradient(135deg, #0052ff 0%, #0041cc 100%)",
+                boxShadow: "0 4px 12px rgba(0, 82, 255, 0.3)",
+                opacity: isSigningIn ? 0.6 : 1,
+                cursor: isSigningIn ? "not-allowed" : "pointer",
+              }}
+            >
+              {isSigningIn ? "Waiting for signature..." : "Sign in with Base"}
+            </button>
+            {auth.isMiniApp && (
+              <button
+                onClick={handleFarcasterSignIn}
+                disabled={isSigningIn}
+                className={styles.button}
+                style={{
+                  width: "100%",
+                  maxWidth: "300px",
+                  background: "linear-gradient(135deg, #855dcd 0%, #6944ba 100%)",
+                  boxShadow: "0 4px 12px rgba(133, 93, 205, 0.3)",
+                  opacity: isSigningIn ? 0.6 : 1,
+                  cursor: isSigningIn ? "not-allowed" : "pointer",
+                }}
+              >
+                Sign in with Farcaster
+              </button>
+            )}
+            <button
+              onClick={() => disconnect()}
+              style={{
+                background: "none",
+                border: "none",
+                color: "#666",
+                fontSize: "0.85rem",
+                textDecoration: "underline",
+                cursor: "pointer",
+              }}
+            >
+              Use a different wallet
+            </button>
+
+            {auth.error && (
+              <div className={styles.error} style={{ maxWidth: "400px" }}>
+                <p className={styles.statusTitle}>Sign-in Failed</p>
+                <p className={styles.statusText}>{auth.error}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Signed in, but payments would come from a wallet the user hasn't proven they own
+  if (!auth.walletLinked) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.card}>
+          <h2 className={styles.title}>Link this wallet</h2>
+          <p className={styles.description} style={{ marginBottom: "2rem" }}>
+            {auth.fid !== null ? `You're signed in with Farcaster (FID ${auth.fid}). ` : ""}
+            Sign a message with this wallet to link it to your account, so you can send payments
+            from it here and in any browser.
+          </p>
+
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: "0.75rem",
+              padding: "1rem 0",
+            }}
+          >
+            <button
+              onClick={handleLinkWallet}
+              disabled={isSigningIn}
+              className={styles.button}
+              style={{
+                width: "100%",
+                maxWidth: "300px",
+                background: "linear-gradient(135deg, #0052ff 0%, #0041cc 100%)",
+                boxShadow: "0 4px 12px rgba(0, 82, 255, 0.3)",
+                opacity: isSigningIn ? 0.6 : 1,
+                cursor: isSigningIn ? "not-allowed" : "pointer",
+              }}
+            >
+              {isSigningIn ? "Waiting for signature..." : "Link this wallet"}
+            </button>
+            <button
+              onClick={handleDisconnect}
+              style={{
+                background: "none",
+                border: "none",
+                color: "#666",
+                fontSize: "0.85rem",
+                textDecoration: "underline",
+                cursor: "pointer",
+              }}
+            >
+              Sign out
+            </button>
+
+            {auth.error && (
+              <div className={styles.error} style={{ maxWidth: "400px" }}>
+                <p className={styles.statusTitle}>Linking Failed</p>
+                <p className={styles.statusText}>{auth.error}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Signed in - show profile + split payment with sign out option
   return (
     <div>
       {/* Disconnect Header with Identity */}
@@ -178,7 +364,25 @@ export function AuthGate() {
               <Badge tooltip="Verified Account" />
             </Avatar>
             <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
-              <p style={{ margin: 0, fontSize: "0.85rem", color: "#666" }}>Connected as</p>
+              <p style={{ margin: 0, fontSize: "0.85rem", color: "#666" }}>
+                Signed in as
+                {/* Staff role badge */}
+                <RoleGate role="operator">
+                  <span
+                    style={{
+                      marginLeft: "0.5rem",
+                      padding: "0.1rem 0.5rem",
+                      background: "#0052ff",
+                      color: "white",
+                      borderRadius: "999px",
+                      fontSize: "0.75rem",
+                      textTransform: "capitalize",
+                    }}
+                  >
+                    {auth.role}
+                  </span>
+                </RoleGate>
+              </p>
               <Name
                 style={{
                   margin: 0,
@@ -195,7 +399,7 @@ export function AuthGate() {
           </Identity>
         </div>
         <button
-          onClick={() => disconnect()}
+          onClick={handleDisconnect}
           style={{
             padding: "0.5rem 1rem",
             background: "white",
@@ -215,10 +419,81 @@ export function AuthGate() {
             e.currentTarget.style.borderColor = "#ccc";
           }}
         >
-          Disconnect
+          Sign out
         </button>
       </div>
 
+      {/* Wallet moved to another chain since sign-in */}
+      {auth.chainMismatch && (
+        <div
+          style={{
+            background: "#fff3cd",
+            borderBottom: "1px solid #ffc107",
+            padding: "0.75rem 2rem",
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            fontSize: "0.9rem",
+            color: "#856404",
+          }}
+        >
+          <span>
+            ⚠️ Your wallet switched networks (chain {auth.walletChainId}). You signed in on chain{" "}
+            {auth.chainId}.
+          </span>
+          <button
+            onClick={() => auth.signIn(auth.walletChainId)}
+            style={{
+              padding: "0.4rem 0.9rem",
+              background: "white",
+              border: "1px solid #ffc107",
+              borderRadius: "6px",
+              cursor: "pointer",
+              fontSize: "0.85rem",
+              fontWeight: 500,
+              whiteSpace: "nowrap",
+            }}
+          >
+            Sign in on this network
+          </button>
+        </div>
+      )}
+
+      {/* Inside a Farcaster client with a wallet-only account */}
+      {auth.isMiniApp && auth.fid === null && (
+        <div
+          style={{
+            background: "#f3effa",
+            borderBottom: "1px solid #855dcd",
+            padding: "0.75rem 2rem",
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            fontSize: "0.9rem",
+            color: "#4a2f7f",
+          }}
+        >
+          <span>Link your Farcaster account to be recognised here without signing a message.</span>
+          <button
+            onClick={() => auth.linkFarcaster()}
+            style={{
+              padding: "0.4rem 0.9rem",
+              background: "white",
+              border: "1px solid #855dcd",
+              borderRadius: "6px",
+              cursor: "pointer",
+              fontSize: "0.85rem",
+              fontWeight: 500,
+              whiteSpace: "nowrap",
+            }}
+          >
+            Link Farcaster
+          </button>
+        </div>
+      )}
+
       {/* Profile Dashboard */}
       <ProfileDashboard />
 
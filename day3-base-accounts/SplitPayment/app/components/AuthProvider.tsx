@@ -0,0 +1,29 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { useAuth, type AuthContextValue } from "../hooks/useAuth";
+
+/**
+ * AuthProvider Component
+ *
+ * Purpose: Share one Sign in with Base session across the component tree
+ *
+ * useAuth keeps its own state, so calling it in several components would
+ * check the session and schedule refreshes once per component. The provider
+ * runs it once; components read it with useAuthContext.
+ */
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const auth = useAuth();
+  return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+}
+
+export function useAuthContext(): AuthContextValue {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error("useAuthContext must be used inside AuthProvider");
+  }
+  return auth;
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useAuthContext } from "./AuthProvider";
+
+/**
+ * ClaimGate Component
+ *
+ * Purpose: Render children only for signed-in users whose session holds an
+ * onchain claim (checked at sign-in, see claims.config.ts)
+ *
+ * Hiding UI is a convenience; the routes behind it must still check the claim
+ * with requireClaim().
+ */
+export function ClaimGate({
+  claim,
+  children,
+  fallback = null,
+}: {
+  claim: string;
+  children: ReactNode;
+  fallback?: ReactNode;
+}) {
+  const auth = useAuthContext();
+  return <>{auth.isAuthenticated && auth.hasClaim(claim) ? children : fallback}</>;
+}
@@ -4,6 +4,7 @@ import { Identity, Avatar, Name, Badge, Address, useName, Socials, useAddress }
 import { useAccount } from 'wagmi';
 import { base } from 'viem/chains';
 import { useState } from 'react';
+import { ActiveSessions } from './ActiveSessions';
 import styles from './ProfileDashboard.module.css';
 
 // Coinbase Verified attestation schema ID on Base
@@ -141,6 +142,9 @@ export function ProfileDashboard() {
               </div>
             )}
           </div>
+
+          {/* Active Sessions - where this address is signed in */}
+          <ActiveSessions />
         </div>
       </div>
     </div>
@@ -0,0 +1,152 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { getAddress } from "@coinbase/onchainkit/identity";
+import styles from "./SplitPayment.module.css";
+import { downloadCsv } from "@/lib/csv";
+import { exportRecipientCsv, importRecipientCsv, type CsvImportLine } from "@/lib/splitCsv";
+import type { RecipientRow } from "@/lib/recipients";
+import type { SplitMode } from "@/lib/splits";
+
+/**
+ * RecipientCsvControls Component
+ *
+ * Purpose: Load the recipient list from a CSV file and save it as one
+ *
+ * Features:
+ * - Import: recipient (address or name), amount or share, optional label
+ * - Names are resolved during the import and pinned on their rows
+ * - Row-by-row report of what was imported and why other lines were skipped
+ * - Export of the current list in the same format
+ *
+ * Parsing and validation live in lib/splitCsv.ts.
+ */
+
+interface RecipientCsvControlsProps {
+  recipients: RecipientRow[];
+  /** Receives the imported rows, replacing the list */
+  onImport: (rows: RecipientRow[]) => void;
+  splitMode: SplitMode;
+  /** Decimals of the split token; import is off until it is known */
+  decimals: number | null;
+  maxRecipients: number;
+  disabled?: boolean;
+}
+
+const buttonStyle = {
+  padding: "0.5rem 0.75rem",
+  border: "1px solid #e0e0e0",
+  borderRadius: "6px",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: "0.9rem",
+};
+
+export function RecipientCsvControls({
+  recipients,
+  onImport,
+  splitMode,
+  decimals,
+  maxRecipients,
+  disabled = false,
+}: RecipientCsvControlsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<CsvImportLine[] | null>(null);
+  const [importError, setImportError] = useState("");
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = "";
+    if (!file || decimals === null) {
+      return;
+    }
+
+    setIsImporting(true);
+    setImportError("");
+    setReport(null);
+    try {
+      const result = await importRecipientCsv(await file.text(), {
+        mode: splitMode,
+        decimals,
+        maxRecipients,
+        resolveName: (name) => getAddress({ name }),
+      });
+      setReport(result.report);
+      if (result.rows.length > 0) {
+        onImport(result.rows);
+      } else {
+        setImportError("No valid recipients in the file");
+      }
+    } catch (error) {
+      console.error("[RecipientCsvControls] Import failed:", error);
+      setImportError(error instanceof Error ? error.message : "Couldn't read the file");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = () =>
+    downloadCsv("split-recipients.csv", exportRecipientCsv(recipients, splitMode));
+
+  const skipped = report?.filter((line) => line.error) ?? [];
+
+  return (
+    <div className={styles.inputGroup}>
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={disabled || isImporting || decimals === null}
+          style={buttonStyle}
+        >
+          {isImporting ? "Importing..." : "Import CSV"}
+        </button>
+        <button type="button" onClick={handleExport} disabled={disabled} style={buttonStyle}>
+          Export CSV
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+          style={{ display: "none" }}
+        />
+      </div>
+      <span className={styles.hint}>
+        Columns: recipient (address or name), {splitMode === "equal" ? "value (ignored for equal splits)" : "value"},
+        label (optional)
+      </span>
+
+      {importError && (
+        <span className={styles.hint} style={{ color: "#dc3545" }}>
+          {importError}
+        </span>
+      )}
+
+      {report && (
+        <div style={{ fontSize: "0.85rem" }}>
+          <p style={{ margin: "0.25rem 0", fontWeight: 600 }}>
+            Imported {report.length - skipped.length} of {report.length} lines
+          </p>
+          {report.length > 0 && (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <tbody>
+                {report.map((line) => (
+                  <tr key={line.line} style={{ color: line.error ? "#dc3545" : undefined }}>
+                    <td style={{ padding: "0.15rem 0.5rem 0.15rem 0", whiteSpace: "nowrap" }}>Line {line.line}</td>
+                    <td style={{ padding: "0.15rem 0.5rem 0.15rem 0", wordBreak: "break-all" }}>
+                      {line.recipient || "—"}
+                    </td>
+                    <td style={{ padding: "0.15rem 0" }}>{line.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
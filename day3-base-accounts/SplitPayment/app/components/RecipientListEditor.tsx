@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, type Dispatch, type SetStateAction } from "react";
+import { getAddress } from "viem";
+import { base } from "viem/chains";
+import { Identity, Avatar, Name, Address, useAddress } from "@coinbase/onchainkit/identity";
+import styles from "./SplitPayment.module.css";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import {
+  RECIPIENT_ERROR_MESSAGES,
+  moveRecipient,
+  newRecipient,
+  recipientName,
+  type RecipientError,
+  type RecipientRow,
+  type ResolvedName,
+} from "@/lib/recipients";
+
+/**
+ * RecipientListEditor Component
+ *
+ * Purpose: Edit the split's recipients
+ *
+ * Features:
+ * - Add, remove and reorder recipients
+ * - Flag invalid and duplicate addresses as they are typed
+ * - Accept ENS names and Basenames, looked up once typing pauses, with an
+ *   avatar and name preview of who they resolve to
+ * - Per-recipient percentage, share or amount, with a preview of what each
+ *   recipient gets (see lib/splits.ts)
+ * - Show each row's label (set by CSV import)
+ * - Stop adding at the maximum batch size
+ *
+ * Validation lives in lib/recipients.ts (checkRecipients); the parent passes
+ * the per-row errors in so the form and the editor agree. A resolved name's
+ * address is pinned on its row, and that pinned address is what gets paid.
+ */
+
+interface RecipientListEditorProps {
+  recipients: RecipientRow[];
+  /** Receives the new list or, for changes made asynchronously, an updater */
+  onChange: Dispatch<SetStateAction<RecipientRow[]>>;
+  /** From checkRecipients, one per row */
+  errors: (RecipientError | null)[];
+  maxRecipients: number;
+  /** Label of the per-recipient value (e.g. "%"), or null when the split mode has none */
+  valueLabel?: string | null;
+  /** What each recipient would receive, formatted; null while the split is invalid */
+  previews?: string[] | null;
+  disabled?: boolean;
+}
+
+// Wait for typing to pause before looking a name up
+const RESOLVE_DEBOUNCE_MS = 400;
+
+const rowButtonStyle = {
+  padding: "0.5rem 0.65rem",
+  border: "1px solid #e0e0e0",
+  borderRadius: "6px",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: "0.9rem",
+};
+
+export function RecipientListEditor({
+  recipients,
+  onChange,
+  errors,
+  maxRecipients,
+  valueLabel = null,
+  previews = null,
+  disabled = false,
+}: RecipientListEditorProps) {
+  const update = (index: number, change: Partial<RecipientRow>) =>
+    onChange(recipients.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  // Lookups finish after other edits, so find the row by id in the latest list
+  const pin = (id: string, resolved: ResolvedName) =>
+    onChange((current) => current.map((row) => (row.id === id ? { ...row, resolved } : row)));
+
+  const remove = (index: number) => onChange(recipients.filter((_, i) => i !== index));
+
+  const canAdd = recipients.length < maxRecipients;
+
+  return (
+    <div className={styles.inputGroup}>
+      <label className={styles.label}>
+        Recipients ({recipients.length}/{maxRecipients})
+      </label>
+
+      {recipients.map((row, index) => {
+        // Empty rows are only reported on submit
+        const error = errors[index] && errors[index] !== "REQUIRED" ? errors[index] : null;
+        const name = recipientName(row.address);
+        return (
+          <div key={row.id} style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+            <div style={{ display: "flex", gap: "0.35rem", alignItems: "center" }}>
+              <input
+                type="text"
+                value={row.address}
+                onChange={(e) => update(index, { address: e.target.value, resolved: null })}
+                className={styles.input}
+                style={{ flex: 1, ...(error && error !== "RESOLVING" && { borderColor: "#dc3545" }) }}
+                placeholder={`Recipient ${index + 1} (0x... or name.base.eth)`}
+                aria-label={`Recipient ${index + 1}`}
+                aria-invalid={!!error && error !== "RESOLVING"}
+                disabled={disabled}
+              />
+              {valueLabel && (
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.value}
+                  onChange={(e) => update(index, { value: e.target.value })}
+                  className={styles.input}
+                  style={{ width: "6rem" }}
+                  placeholder={valueLabel}
+                  aria-label={`${valueLabel} for recipient ${index + 1}`}
+                  disabled={disabled}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(moveRecipient(recipients, index, index - 1))}
+                disabled={disabled || index === 0}
+                style={rowButtonStyle}
+                aria-label={`Move recipient ${index + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveRecipient(recipients, index, index + 1))}
+                disabled={disabled || index === recipients.length - 1}
+                style={rowButtonStyle}
+                aria-label={`Move recipient ${index + 1} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                disabled={disabled || recipients.length === 1}
+                style={rowButtonStyle}
+                aria-label={`Remove recipient ${index + 1}`}
+              >
+                ✕
+              </button>
+            </div>
+            {row.label && <span className={styles.hint}>{row.label}</span>}
+            {error && (
+              <span className={styles.hint} style={error === "RESOLVING" ? undefined : { color: "#dc3545" }}>
+                {RECIPIENT_ERROR_MESSAGES[error]}
+              </span>
+            )}
+            {name && (
+              <NameResolution name={name} resolved={row.resolved} onResolved={(resolved) => pin(row.id, resolved)} />
+            )}
+            {previews?.[index] && <span className={styles.hint}>Receives {previews[index]}</span>}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...recipients, newRecipient()])}
+        disabled={disabled || !canAdd}
+        style={{ ...rowButtonStyle, alignSelf: "flex-start" }}
+      >
+        + Add recipient
+      </button>
+      {!canAdd && (
+        <span className={styles.hint}>A split can have at most {maxRecipients} recipients</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Look a name up once typing pauses, pin the result, and preview who it is
+ */
+function NameResolution({
+  name,
+  resolved,
+  onResolved,
+}: {
+  name: string;
+  resolved: ResolvedName | null | undefined;
+  onResolved: (resolved: ResolvedName) => void;
+}) {
+  const debouncedName = useDebouncedValue(name, RESOLVE_DEBOUNCE_MS);
+  const { data, isError, isSuccess } = useAddress({ name: debouncedName });
+
+  useEffect(() => {
+    if (debouncedName !== name || !(isSuccess || isError)) {
+      return;
+    }
+    const address = isSuccess && data ? getAddress(data) : null;
+    if (resolved?.name !== name || resolved.address !== address) {
+      onResolved({ name, address });
+    }
+  }, [name, debouncedName, data, isError, isSuccess, resolved, onResolved]);
+
+  if (resolved?.name !== name || !resolved.address) {
+    return null;
+  }
+
+  return (
+    <Identity address={resolved.address} chain={base}>
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <Avatar style={{ width: "24px", height: "24px", borderRadius: "50%" }} />
+        <Name style={{ fontSize: "0.85rem", fontWeight: 600 }} />
+        <Address className={styles.hint} />
+      </div>
+    </Identity>
+  );
+}
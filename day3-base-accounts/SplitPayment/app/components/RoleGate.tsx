@@ -0,0 +1,26 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { Role } from "@/lib/roles";
+import { useAuthContext } from "./AuthProvider";
+
+/**
+ * RoleGate Component
+ *
+ * Purpose: Render children only for signed-in users with at least the given role
+ *
+ * Hiding UI is a convenience; the routes behind it must still check the role
+ * with requireRole() / requireAdmin().
+ */
+export function RoleGate({
+  role,
+  children,
+  fallback = null,
+}: {
+  role: Role;
+  children: ReactNode;
+  fallback?: ReactNode;
+}) {
+  const auth = useAuthContext();
+  return <>{auth.isAuthenticated && auth.hasRole(role) ? children : fallback}</>;
+}
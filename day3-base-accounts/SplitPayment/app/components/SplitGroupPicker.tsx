@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./SplitPayment.module.css";
+import type { useSplitGroups } from "../hooks/useSplitGroups";
+import type { SplitGroup, SplitGroupInput } from "@/lib/splitGroups";
+
+/**
+ * SplitGroupPicker Component
+ *
+ * Purpose: Load a saved split group into the form, or save the form as one
+ *
+ * Features:
+ * - Pick a saved group (e.g. "house rent") and load its recipients, values,
+ *   split mode, total and token
+ * - Save the current form as a new group, update the picked one, or delete it
+ * - Changing what a group pays out, or deleting it, asks for a passkey
+ *   confirmation first
+ *
+ * Groups are stored per signed-in wallet (lib/splitGroups.ts). Sessions
+ * without the splits/store scope see a hint instead.
+ */
+
+interface SplitGroupPickerProps {
+  splitGroups: ReturnType<typeof useSplitGroups>;
+  /** The form as a group with this name */
+  currentGroup: (name: string) => SplitGroupInput | { error: string };
+  onLoad: (group: SplitGroup) => void;
+  disabled?: boolean;
+}
+
+const buttonStyle = {
+  padding: "0.5rem 0.75rem",
+  border: "1px solid #e0e0e0",
+  borderRadius: "6px",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: "0.9rem",
+};
+
+export function SplitGroupPicker({ splitGroups, currentGroup, onLoad, disabled = false }: SplitGroupPickerProps) {
+  const { groups, available, isLoading } = splitGroups;
+  const [selectedId, setSelectedId] = useState("");
+  const [newName, setNewName] = useState("");
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  if (!available) {
+    return (
+      <span className={styles.hint}>
+        Sign in and allow storing split groups to save recipients for next time
+      </span>
+    );
+  }
+
+  const selected = groups.find((group) => group.id === selectedId) ?? null;
+  const busy = disabled || isLoading;
+
+  const report = (result: { success: boolean; error?: string }, success: string) =>
+    setMessage(result.success ? { text: success, isError: false } : { text: result.error ?? "", isError: true });
+
+  const save = async (name: string, id?: string) => {
+    const group = currentGroup(name);
+    if ("error" in group) {
+      setMessage({ text: group.error, isError: true });
+      return;
+    }
+    const result = id ? await splitGroups.update(id, group) : await splitGroups.create(group);
+    report(result, id ? `Updated "${group.name}"` : `Saved "${group.name}"`);
+    if (result.success && result.group) {
+      setSelectedId(result.group.id);
+      setNewName("");
+    }
+  };
+
+  const remove = async (group: SplitGroup) => {
+    const result = await splitGroups.remove(group.id);
+    report(result, `Deleted "${group.name}"`);
+    if (result.success) {
+      setSelectedId("");
+    }
+  };
+
+  return (
+    <div className={styles.inputGroup}>
+      <label className={styles.label}>Saved groups</label>
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className={styles.input}
+          style={{ flex: 1 }}
+          disabled={busy || groups.length === 0}
+        >
+          <option value="">{groups.length === 0 ? "No saved groups yet" : "Choose a group"}</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>
+              {group.name} ({group.recipients.length} recipients, {group.token.symbol})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => {
+            if (selected) {
+              onLoad(selected);
+              setMessage({ text: `Loaded "${selected.name}"`, isError: false });
+            }
+          }}
+          disabled={busy || !selected}
+          style={buttonStyle}
+        >
+          Load
+        </button>
+        <button
+          type="button"
+          onClick={() => selected && save(selected.name, selected.id)}
+          disabled={busy || !selected}
+          style={buttonStyle}
+        >
+          Update
+        </button>
+        <button
+          type="button"
+          onClick={() => selected && remove(selected)}
+          disabled={busy || !selected}
+          style={buttonStyle}
+        >
+          Delete
+        </button>
+      </div>
+      <div style={{ display: "flex", gap: "0.5rem" }}>
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className={styles.input}
+          style={{ flex: 1 }}
+          placeholder='Group name, e.g. "House rent"'
+          maxLength={64}
+          disabled={busy}
+        />
+        <button
+          type="button"
+          onClick={() => save(newName)}
+          disabled={busy || !newName.trim()}
+          style={buttonStyle}
+        >
+          Save as group
+        </button>
+      </div>
+      {message && (
+        <span className={styles.hint} style={message.isError ? { color: "#dc3545" } : undefined}>
+          {message.text}
+        </span>
+      )}
+    </div>
+  );
+}
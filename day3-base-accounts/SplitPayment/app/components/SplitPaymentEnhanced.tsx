@@ -1,18 +1,43 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useAccount, useWalletClient } from "wagmi";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { createBaseAccountSDK, base } from "@base-org/account";
-import { parseEther, numberToHex } from "viem";
+import { formatUnits, numberToHex, isAddress, isAddressEqual } from "viem";
+import { baseSepolia } from "viem/chains";
 import styles from "./SplitPayment.module.css";
 import { UserDataConsent } from "./UserDataConsent";
 import { GasPaymentToggle } from "./GasPaymentToggle";
+import { useAuthContext } from "./AuthProvider";
+import { ClaimGate } from "./ClaimGate";
+import { RecipientListEditor } from "./RecipientListEditor";
+import { RecipientCsvControls } from "./RecipientCsvControls";
+import { SplitGroupPicker } from "./SplitGroupPicker";
+import { usePasskey } from "../hooks/usePasskey";
+import { useSplitGroups } from "../hooks/useSplitGroups";
+import { csrfHeaders, senderHeaders } from "@/lib/authCookies";
+import { downloadCsv } from "@/lib/csv";
+import { exportSplitsCsv, type CompletedSplit } from "@/lib/splitCsv";
+import type { SplitGroup, SplitGroupInput } from "@/lib/splitGroups";
+import { MAX_RECIPIENTS, checkRecipients, newRecipient, type RecipientRow } from "@/lib/recipients";
+import { calculateSplit, isSplitMode, type SplitMode } from "@/lib/splits";
+import {
+  ETH,
+  USDC_ADDRESS,
+  buildSplitCalls,
+  largeSplitLimit,
+  readBalance,
+  readToken,
+  splitSize,
+  type SplitCall,
+  type SplitToken,
+} from "@/lib/splitTokens";
 
 /**
  * Enhanced SplitPayment Component
  *
  * Features:
- * 1. Batch Transactions - Multiple transfers in one transaction
+ * 1. Batch Transactions - One transfer per recipient, all in one transaction
  * 2. User Authentication - Sign in with Base (SIWE)
  * 3. Data Collection - Email (required) + Phone (optional)
  * 4. ERC-20 Gas Payments - Pay gas in USDC instead of ETH
@@ -23,14 +48,36 @@ import { GasPaymentToggle } from "./GasPaymentToggle";
  * - dataCallback capability for user info collection
  * - paymasterService capability for ERC-20 gas
  * - Graceful fallbacks for unsupported wallets
+ * - Sign-in claims (claims.config.ts) gate USDC gas and large splits
+ * - Paymaster use needs the paymaster/sponsor scope granted at sign-in; the wallet
+ *   talks to the paymaster through the /api/sponsor proxy (lib/sponsor.ts)
+ * - Any number of recipients up to MAX_RECIPIENTS (lib/recipients.ts)
+ * - Equal, percentage, share or fixed-amount splits, exact to the wei (lib/splits.ts)
+ * - Recipients may be ENS names or Basenames, resolved and pinned before signing
+ * - Pay out ETH, USDC or any ERC-20 token, checking the balance before signing (lib/splitTokens.ts)
+ * - Large splits and exporting completed splits are confirmed with a passkey
+ *   (step-up, see usePasskey; checked in the browser, see lib/passkeys.ts)
+ * - Recipient lists import from and export to CSV; completed splits export to CSV (lib/splitCsv.ts)
+ * - Named split groups saved per wallet and loaded back into the form (lib/splitGroups.ts)
  */
 
-// USDC token address on Base Sepolia
-const USDC_ADDRESS = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-
 // 
 // Get from: https://portal.cdp.coinbase.com
-const PAYMASTER_URL = process.env.NEXT_PUBLIC_PAYMASTER_URL || "";
+
+// Claims (see claims.config.ts) that unlock USDC gas and large splits
+const USDC_GAS_CLAIM = "usdcHolder";
+const LARGE_SPLIT_CLAIM = "coinbaseVerified";
+
+// Splits over their token's limit (lib/splitTokens.ts) need LARGE_SPLIT_CLAIM and a
+// passkey confirmation; splits in tokens without a limit need the passkey only
+
+// Split mode options, with the label of the per-recipient value they need
+const SPLIT_MODE_OPTIONS: Record<SplitMode, { title: string; valueLabel: string | null }> = {
+  equal: { title: "Equal split of a total", valueLabel: null },
+  percentage: { title: "Percentages", valueLabel: "%" },
+  shares: { title: "Shares (e.g. 2:1:1)", valueLabel: "Shares" },
+  fixed: { title: "Fixed amount each", valueLabel: "Amount" },
+};
 
 interface CollectedUserData {
   email?: string;
@@ -47,12 +94,34 @@ interface SplitPaymentEnhancedProps {
 export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps) {
   const { address, isConnected, connector } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient({ chainId: baseSepolia.id });
+  const auth = useAuthContext();
+  const passkey = usePasskey(auth.isAuthenticated, auth.proveWallet);
+  const splitGroups = useSplitGroups(auth.isAuthenticated, passkey.ensureStepUp);
 
   // Recipient state
-  const [recipient1, setRecipient1] = useState("");
-  const [recipient2, setRecipient2] = useState("");
-  const [recipient3, setRecipient3] = useState("");
-  const [amount, setAmount] = useState("0.001");
+  const [recipients, setRecipients] = useState<RecipientRow[]>(() => [
+    newRecipient(),
+    newRecipient(),
+    newRecipient(),
+  ]);
+  const [splitMode, setSplitMode] = useState<SplitMode>("equal");
+  const [total, setTotal] = useState("0.003");
+
+  // Token state: what the split pays out in, read onchain once chosen
+  const [tokenChoice, setTokenChoice] = useState<"ETH" | "USDC" | "custom">("ETH");
+  const [customToken, setCustomToken] = useState("");
+  const [token, setToken] = useState<SplitToken | null>(ETH);
+  const [tokenError, setTokenError] = useState("");
+
+  const recipientCheck = checkRecipients(recipients);
+  const split = calculateSplit({
+    mode: splitMode,
+    total,
+    values: recipients.map((row) => row.value),
+    decimals: token?.decimals ?? ETH.decimals,
+  });
+  const symbol = token?.symbol ?? "";
 
   // Feature toggles
   const [collectData, setCollectData] = useState(false);
@@ -63,6 +132,10 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
   const [txHash, setTxHash] = useState<string>("");
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [usedBatchMode, setUsedBatchMode] = useState<boolean>(false);
+  // Recipients in the last submitted split, for the success message
+  const [sentCount, setSentCount] = useState<number>(0);
+  // Splits completed in this session, for CSV export
+  const [completedSplits, setCompletedSplits] = useState<CompletedSplit[]>([]);
 
   // Collected data state
   const [collectedData, setCollectedData] = useState<CollectedUserData | null>(null);
@@ -71,22 +144,106 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
   // SDK initialization
   const [sdk, setSdk] = useState<ReturnType<typeof createBaseAccountSDK> | null>(null);
 
+  // The paymaster is never configured here: each sponsored call gets a proxy URL from /api/sponsor
   useEffect(() => {
     const baseAccountSdk = createBaseAccountSDK({
       appName: "Split Payment Demo",
       appLogoUrl: "https://base.org/favicon.ico",
       appChainIds: [base.constants.CHAIN_IDS.baseSepolia],
-      // Paymaster configuration for ERC-20 gas payments
-      ...(payWithUSDC &&
-        PAYMASTER_URL && {
-          paymasterUrls: {
-            [base.constants.CHAIN_IDS.baseSepolia]: PAYMASTER_URL,
-          },
-        }),
     });
 
     setSdk(baseAccountSdk);
-  }, [payWithUSDC]);
+  }, []);
+
+  useEffect(() => {
+    setTokenError("");
+    if (tokenChoice === "ETH") {
+      setToken(ETH);
+      return;
+    }
+
+    setToken(null);
+    const tokenAddress = tokenChoice === "USDC" ? USDC_ADDRESS : customToken.trim();
+    if (!isAddress(tokenAddress)) {
+      if (tokenAddress) {
+        setTokenError("Not a valid token address");
+      }
+      return;
+    }
+    if (!publicClient) {
+      return;
+    }
+
+    let cancelled = false;
+    readToken(publicClient, tokenAddress)
+      .then((read) => !cancelled && setToken(read))
+      .catch((error) => {
+        console.error("[SplitPayment] Reading token failed:", error);
+        if (!cancelled) {
+          setTokenError("Couldn't read an ERC-20 token at this address on Base Sepolia");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenChoice, customToken, publicClient]);
+
+  /**
+   * The form as a split group to save
+   */
+  const currentGroup = (name: string): SplitGroupInput | { error: string } => {
+    if (!token) {
+      return { error: tokenError || "Choose a token to split" };
+    }
+    return {
+      name,
+      mode: splitMode,
+      total: splitMode === "fixed" ? "" : total,
+      token,
+      recipients: recipients.map((row) => ({
+        recipient: row.address.trim(),
+        value: row.value,
+        ...(row.label && { label: row.label }),
+      })),
+    };
+  };
+
+  /**
+   * Download the completed splits, after a passkey confirmation
+   */
+  const exportCompletedSplits = async () => {
+    const confirmed = await passkey.ensureStepUp();
+    if (!confirmed.success) {
+      setErrorMessage(confirmed.error || "Exporting splits must be confirmed with your passkey");
+      setStatus("error");
+      return;
+    }
+    downloadCsv("completed-splits.csv", exportSplitsCsv(completedSplits));
+  };
+
+  /**
+   * Fill the form from a saved group; names are resolved and pinned again
+   */
+  const loadGroup = (group: SplitGroup) => {
+    setSplitMode(group.mode);
+    if (group.total) {
+      setTotal(group.total);
+    }
+    if (!group.token.address) {
+      setTokenChoice("ETH");
+    } else if (isAddressEqual(group.token.address, USDC_ADDRESS)) {
+      setTokenChoice("USDC");
+    } else {
+      setTokenChoice("custom");
+      setCustomToken(group.token.address);
+    }
+    setRecipients(
+      group.recipients.map(({ recipient, value, label }) => ({
+        ...newRecipient(recipient, value),
+        ...(label && { label }),
+      }))
+    );
+  };
 
   /**
    * Detect Coinbase Smart Wallet
@@ -96,15 +253,26 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
     return connectorName.includes("coinbase");
   };
 
+  /**
+   * Paymaster proxy URL for the wallet; the server counts sponsorships against the daily allowance
+   */
+  const requestSponsorship = async (): Promise<string> => {
+    const response = await fetch("/api/sponsor", {
+      method: "POST",
+      headers: { ...csrfHeaders(), ...senderHeaders(address) },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Transaction sponsorship was refused");
+    }
+    return data.url;
+  };
+
   /**
    * Execute batch transaction with Base Account SDK
    * Includes data collection and ERC-20 gas payment capabilities
    */
-  const executeBatchWithSDK = async (calls: Array<{
-    to: `0x${string}`;
-    value: string;
-    data: `0x${string}`;
-  }>) => {
+  const executeBatchWithSDK = async (calls: SplitCall[]) => {
     if (!sdk || !address) {
       throw new Error("SDK not initialized");
     }
@@ -125,9 +293,9 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
     }
 
     // Add paymaster capability for ERC-20 gas
-    if (payWithUSDC && PAYMASTER_URL) {
+    if (payWithUSDC) {
       capabilities.paymasterService = {
-        url: PAYMASTER_URL,
+        url: await requestSponsorship(),
       };
     }
 
@@ -173,11 +341,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
   /**
    * Fallback for traditional wallets (MetaMask, etc.)
    */
-  const executeSeparateTransactions = async (calls: Array<{
-    to: `0x${string}`;
-    value: string;
-    data: `0x${string}`;
-  }>) => {
+  const executeSeparateTransactions = async (calls: SplitCall[]) => {
     if (!walletClient) {
       throw new Error("Wallet client not available");
     }
@@ -185,7 +349,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
     const hashes: string[] = [];
 
     for (let i = 0; i < calls.length; i++) {
-      console.log(`[SplitPayment] Sending transaction ${i + 1}/3...`);
+      console.log(`[SplitPayment] Sending transaction ${i + 1}/${calls.length}...`);
 
       const hash = await walletClient.sendTransaction({
         to: calls[i].to,
@@ -210,45 +374,123 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
       return;
     }
 
+    // Only send from a wallet linked to the signed-in user
+    if (!auth.addresses.some((linked) => isAddressEqual(address, linked as `0x${string}`))) {
+      setErrorMessage("Connected wallet isn't linked to the signed-in account. Please link it or sign in again");
+      setStatus("error");
+      return;
+    }
+
     // Validate inputs
-    if (!recipient1 || !recipient2 || !recipient3) {
-      setErrorMessage("Please enter all recipient addresses");
+    if (!recipientCheck.valid) {
+      setErrorMessage(
+        recipientCheck.listError ??
+          (recipientCheck.errors.includes("REQUIRED")
+            ? "Please enter all recipient addresses"
+            : recipientCheck.errors.includes("RESOLVING")
+              ? "Wait for recipient names to resolve"
+              : "Fix the invalid, unresolved or duplicate recipients")
+      );
+      setStatus("error");
+      return;
+    }
+
+    // Pin the recipients now: names were resolved when typed, and a name that
+    // changes while the user confirms must not change who gets paid
+    const pinnedRecipients = recipientCheck.addresses;
+    const pinnedRows = recipients;
+
+    if (!token) {
+      setErrorMessage(tokenError || "Choose a token to split");
       setStatus("error");
       return;
     }
 
-    // Validate paymaster URL if USDC selected
-    if (payWithUSDC && !PAYMASTER_URL) {
-      setErrorMessage("Paymaster not configured. Add NEXT_PUBLIC_PAYMASTER_URL to your .env file");
+    if (!split.ok) {
+      setErrorMessage(split.message);
       setStatus("error");
       return;
     }
 
+    const size = splitSize(token, split.total);
+    const limit = largeSplitLimit(token);
+    const largeSplitLabel = limit ? `Splits over ${limit} ${token.symbol}` : `${token.symbol} splits`;
+    if (size === "large" && !auth.hasClaim(LARGE_SPLIT_CLAIM)) {
+      setErrorMessage(`${largeSplitLabel} require a Coinbase Verified account`);
+      setStatus("error");
+      return;
+    }
+
+    if (payWithUSDC && !auth.hasScope("paymaster/sponsor")) {
+      setErrorMessage("Sign in again and allow sponsored transactions to pay gas in USDC");
+      setStatus("error");
+      return;
+    }
+
+    if (payWithUSDC && !auth.hasClaim(USDC_GAS_CLAIM)) {
+      setErrorMessage("Paying gas in USDC requires a USDC balance on Base Sepolia. Sign in again after topping up");
+      setStatus("error");
+      return;
+    }
+
+    // Check the balance before asking for a signature (gas comes on top for ETH)
+    try {
+      if (!publicClient) {
+        throw new Error("No Base Sepolia client");
+      }
+      const balance = await readBalance(publicClient, token, address);
+      if (balance < split.total) {
+        setErrorMessage(
+          `Insufficient ${token.symbol} balance: the split needs ${formatUnits(split.total, token.decimals)}, ` +
+            `you have ${formatUnits(balance, token.decimals)}`
+        );
+        setStatus("error");
+        return;
+      }
+    } catch (error) {
+      console.error("[SplitPayment] Balance check failed:", error);
+      setErrorMessage(`Couldn't check your ${token.symbol} balance. Please try again`);
+      setStatus("error");
+      return;
+    }
+
+    if (size !== "small") {
+      const confirmed = await passkey.ensureStepUp();
+      if (!confirmed.success) {
+        setErrorMessage(confirmed.error || `${largeSplitLabel} must be confirmed with your passkey`);
+        setStatus("error");
+        return;
+      }
+    }
+
     try {
       setStatus("pending");
       setErrorMessage("");
       setTxHash("");
       setUsedBatchMode(false);
       setCollectedData(null);
+      setSentCount(pinnedRecipients.length);
+
+      // Keep what was paid for export once the split goes through
+      const splitAmounts = split.amounts;
+      const recordCompleted = (hash: string) =>
+        setCompletedSplits((prev) => [
+          ...prev,
+          {
+            txHash: hash.startsWith("0x") ? hash : "",
+            token,
+            recipients: pinnedRecipients.map((recipient, i) => ({
+              address: recipient,
+              name: pinnedRows[i].resolved?.name,
+              label: pinnedRows[i].label,
+              amount: splitAmounts[i],
+            })),
+            completedAt: Date.now(),
+          },
+        ]);
 
-      // Prepare batch calls
-      const calls = [
-        {
-          to: recipient1 as `0x${string}`,
-          value: numberToHex(parseEther(amount)),
-          data: "0x" as `0x${string}`,
-        },
-        {
-          to: recipient2 as `0x${string}`,
-          value: numberToHex(parseEther(amount)),
-          data: "0x" as `0x${string}`,
-        },
-        {
-          to: recipient3 as `0x${string}`,
-          value: numberToHex(parseEther(amount)),
-          data: "0x" as `0x${string}`,
-        },
-      ];
+      // Prepare batch calls, one per recipient (ERC-20 transfers for tokens)
+      const calls = buildSplitCalls(token, pinnedRecipients, split.amounts);
 
       const isCoinbase = isCoinbaseSmartWallet();
       console.log("[SplitPayment] Wallet type:", isCoinbase ? "Coinbase Smart Wallet" : "Traditional");
@@ -290,6 +532,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
           setTxHash(hash);
           setStatus("success");
           setUsedBatchMode(true);
+          recordCompleted(hash);
 
           console.log("[SplitPayment] Transaction completed successfully!");
         } catch (sdkError: any) {
@@ -307,6 +550,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
           setTxHash("check-wallet");
           setStatus("success");
           setUsedBatchMode(true);
+          recordCompleted("check-wallet");
           setErrorMessage("Transaction submitted - check your wallet activity for confirmation");
         }
       } else {
@@ -325,6 +569,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
         setTxHash(hashes[0]);
         setStatus("success");
         setUsedBatchMode(false);
+        recordCompleted(hashes[0]);
       }
     } catch (error: any) {
       console.error("[SplitPayment] Transaction failed:", error);
@@ -359,7 +604,7 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
       <div className={styles.card}>
         <h2 className={styles.title}>Split Payment Demo</h2>
         <p className={styles.description}>
-          Send ETH to 3 recipients with advanced features
+          Send ETH or tokens to up to {MAX_RECIPIENTS} recipients with advanced features
         </p>
 
         {/* Wallet Type Indicator */}
@@ -392,66 +637,120 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
         )}
 
         <div className={styles.form}>
-          {/* Amount Input */}
-          <div className={styles.inputGroup}>
-            <label className={styles.label}>Amount per recipient (ETH)</label>
-            <input
-              type="number"
-              step="0.001"
-              min="0"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              className={styles.input}
-              placeholder="0.001"
-            />
-            <span className={styles.hint}>
-              Total: {(parseFloat(amount) * 3).toFixed(3)} ETH + gas
-            </span>
-          </div>
+          {/* Saved Groups */}
+          <SplitGroupPicker
+            splitGroups={splitGroups}
+            currentGroup={currentGroup}
+            onLoad={loadGroup}
+            disabled={status === "pending"}
+          />
 
-          {/* Recipient Inputs */}
+          {/* Token */}
           <div className={styles.inputGroup}>
-            <label className={styles.label}>Recipient 1</label>
-            <input
-              type="text"
-              value={recipient1}
-              onChange={(e) => setRecipient1(e.target.value)}
+            <label className={styles.label}>Token</label>
+            <select
+              value={tokenChoice}
+              onChange={(e) => setTokenChoice(e.target.value as typeof tokenChoice)}
               className={styles.input}
-              placeholder="0x..."
-            />
+            >
+              <option value="ETH">ETH</option>
+              <option value="USDC">USDC</option>
+              <option value="custom">Other ERC-20 token</option>
+            </select>
+            {tokenChoice === "custom" && (
+              <input
+                type="text"
+                value={customToken}
+                onChange={(e) => setCustomToken(e.target.value)}
+                className={styles.input}
+                placeholder="Token address (0x...)"
+              />
+            )}
+            {tokenError ? (
+              <span className={styles.hint} style={{ color: "#dc3545" }}>{tokenError}</span>
+            ) : (
+              tokenChoice !== "ETH" && (
+                <span className={styles.hint}>
+                  {token ? `${token.symbol}, ${token.decimals} decimals` : "Reading token..."}
+                </span>
+              )
+            )}
           </div>
 
+          {/* Split Mode */}
           <div className={styles.inputGroup}>
-            <label className={styles.label}>Recipient 2</label>
-            <input
-              type="text"
-              value={recipient2}
-              onChange={(e) => setRecipient2(e.target.value)}
+            <label className={styles.label}>Split</label>
+            <select
+              value={splitMode}
+              onChange={(e) => isSplitMode(e.target.value) && setSplitMode(e.target.value)}
               className={styles.input}
-              placeholder="0x..."
-            />
+            >
+              {Object.entries(SPLIT_MODE_OPTIONS).map(([mode, { title }]) => (
+                <option key={mode} value={mode}>
+                  {title}
+                </option>
+              ))}
+            </select>
           </div>
 
-          <div className={styles.inputGroup}>
-            <label className={styles.label}>Recipient 3</label>
-            <input
-              type="text"
-              value={recipient3}
-              onChange={(e) => setRecipient3(e.target.value)}
-              className={styles.input}
-              placeholder="0x..."
-            />
-          </div>
+          {/* Total Input */}
+          {splitMode !== "fixed" && (
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>Total to split{symbol && ` (${symbol})`}</label>
+              <input
+                type="number"
+                step="0.001"
+                min="0"
+                value={total}
+                onChange={(e) => setTotal(e.target.value)}
+                className={styles.input}
+                placeholder="0.003"
+              />
+            </div>
+          )}
+
+          {/* Recipient List */}
+          <RecipientListEditor
+            recipients={recipients}
+            onChange={setRecipients}
+            errors={recipientCheck.errors}
+            maxRecipients={MAX_RECIPIENTS}
+            valueLabel={splitMode === "fixed" && symbol ? symbol : SPLIT_MODE_OPTIONS[splitMode].valueLabel}
+            previews={
+              token && split.ok ? split.amounts.map((amount) => `${formatUnits(amount, token.decimals)} ${symbol}`) : null
+            }
+            disabled={status === "pending"}
+          />
+          <RecipientCsvControls
+            recipients={recipients}
+            onImport={setRecipients}
+            splitMode={splitMode}
+            decimals={token?.decimals ?? null}
+            maxRecipients={MAX_RECIPIENTS}
+            disabled={status === "pending"}
+          />
+          <span className={styles.hint}>
+            {!split.ok ? split.message : token && `Total: ${formatUnits(split.total, token.decimals)} ${symbol} + gas`}
+          </span>
 
           {/*  User Data Collection */}
           <UserDataConsent enabled={collectData} onToggle={setCollectData} />
 
           {/*  ERC-20 Gas Payment */}
-          <GasPaymentToggle
-            enabled={payWithUSDC}
-            onToggle={setPayWithUSDC}
-            usdcAddress={USDC_ADDRESS}
-          />
+          <ClaimGate
+            claim={USDC_GAS_CLAIM}
+            fallback={
+              <span className={styles.hint}>
+                Hold USDC on Base Sepolia and sign in again to pay gas in USDC
+              </span>
+            }
+          >
+            <GasPaymentToggle
+              enabled={payWithUSDC}
+              onToggle={setPayWithUSDC}
+              usdcAddress={USDC_ADDRESS}
+            />
+          </ClaimGate>
 
           {/* Submit Button */}
           <button
@@ -468,8 +767,8 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
               <p className={styles.statusTitle}>Transaction Successful! 🎉</p>
               <p className={styles.statusText}>
                 {usedBatchMode
-                  ? "All 3 payments sent in ONE batch transaction!"
-                  : "Payments sent (3 separate transactions)"}
+                  ? `All ${sentCount} payments sent in ONE batch transaction!`
+                  : `Payments sent (${sentCount} separate transactions)`}
               </p>
 
               {/* Gas Payment Method */}
@@ -523,6 +822,17 @@ export function SplitPaymentEnhanced({ userAddress }: SplitPaymentEnhancedProps)
             </div>
           )}
 
+          {completedSplits.length > 0 && (
+            <button
+              type="button"
+              onClick={exportCompletedSplits}
+              className={styles.link}
+              style={{ background: "none", border: "none", padding: 0, cursor: "pointer", alignSelf: "flex-start" }}
+            >
+              Export completed splits ({completedSplits.length}) as CSV
+            </button>
+          )}
+
           {/* Error Display */}
           {status === "error" && errorMessage && (
             <div className={styles.error}>
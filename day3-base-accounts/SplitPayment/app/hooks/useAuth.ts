@@ -1,9 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { getProvider } from "@/lib/baseAccount";
-import { numberToHex } from "viem";
+import { useAccount, useWalletClient } from "wagmi";
+import { coinbaseWallet } from "wagmi/connectors";
+import { isAddressEqual, numberToHex, type WalletClient } from "viem";
 import { base } from "@base-org/account";
+import { sdk } from "@farcaster/miniapp-sdk";
+import { csrfHeaders } from "@/lib/authCookies";
+import { createSignInMessage } from "@/lib/siwe";
+import { hasRole, type Role } from "@/lib/roles";
+import {
+  DEFAULT_SCOPE_REQUEST,
+  encodeRecap,
+  recapForScopes,
+  recapStatement,
+  type Scope,
+  type ScopeGrants,
+} from "@/lib/recaps";
 
 /**
  * useAuth Hook
@@ -12,6 +26,9 @@ import { base } from "@base-org/account";
  *
  * Features:
  * - Sign in with wallet signature (SIWE)
+ * - Sign in with Farcaster (Quick Auth) when running inside a Farcaster client
+ * - Link a wallet or Farcaster account to the signed-in user, so the same user
+ *   is recognised in a browser and in a Farcaster client
  * - Session management
  * - Sign out functionality
  * - Auto-restore session on page load
@@ -20,170 +37,485 @@ import { base } from "@base-org/account";
  * 1. User clicks "Sign in with Base"
  * 2. Fetch nonce from server
  * 3. Get provider instance from SDK
- * 4. Switch to Base Sepolia
+ * 4. Switch to the sign-in chain (Base Sepolia unless another is passed to signIn)
  * 5. Request wallet signature with signInWithEthereum capability
- * 6. Verify signature on server
- * 7. Store session token
+ * 6. Verify signature on server (sets an httpOnly session cookie)
+ *
+ * Wallets connected through another connector (e.g. an injected browser
+ * wallet) sign the SIWE message themselves with personal_sign instead of steps
+ * 3-5, so the signing address is the connected one the wallet watcher expects.
+ *
+ * Farcaster sign-in sends a Quick Auth token from the mini app SDK instead;
+ * both go to POST /api/auth/session and resolve to one user once linked.
+ *
+ * The session token lives only in that cookie; this hook never sees it.
+ * Sessions are restored from /api/auth/session on page load.
+ * In stateless mode the short-lived access token is refreshed shortly before it expires.
+ *
+ * The session's role (user, operator or admin) is fixed at sign-in; use
+ * hasRole to gate UI, or the RoleGate component. Onchain claims (token balances,
+ * Coinbase Verified; see claims.config.ts) are also checked at sign-in: use
+ * hasClaim or the ClaimGate component.
+ *
+ * Sign-in also asks the user to approve scoped permissions (SIWE ReCaps,
+ * lib/recaps.ts): DEFAULT_SCOPE_REQUEST unless signIn is given others. Check the
+ * granted ones with hasScope; routes enforce them with requireScope.
+ *
+ * Tabs keep each other in sync over a BroadcastChannel: signing in or out in one
+ * tab updates the others. Components read this state through AuthProvider
+ * (useAuthContext) so the page shares one instance.
+ *
+ * Wallet watcher:
+ * - Switching to an account that isn't linked to the user signs a wallet
+ *   session out, since payments would otherwise be sent from an address that
+ *   never signed in
+ * - Farcaster sessions stay signed in and set walletLinked=false so the UI can
+ *   prompt to link the connected wallet
+ * - Switching chains keeps the session but sets chainMismatch so the UI can
+ *   prompt to sign in again on the new chain
  */
 
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Channel tabs use to tell each other about sign-in, sign-out and refreshes
+const AUTH_CHANNEL = "siwe-auth";
+
+// Web Lock held while refreshing, so only one tab rotates the refresh token
+const REFRESH_LOCK = "siwe-refresh";
+
+type AuthBroadcast =
+  | { type: "signed-in" }
+  | { type: "linked" }
+  | { type: "signed-out" }
+  | { type: "refreshed"; accessExpiresAt: number };
+
+// Chain used when signIn is called without one; must be allowed by SIWE_ALLOWED_CHAIN_IDS
+const DEFAULT_SIGN_IN_CHAIN_ID =
+  Number(process.env.NEXT_PUBLIC_SIWE_CHAIN_ID) || base.constants.CHAIN_IDS.baseSepolia;
+
+// Explanations for the error codes returned by the /api/auth routes
+const VERIFY_ERROR_MESSAGES: Record<string, string> = {
+  MALFORMED_MESSAGE: "The wallet returned a sign-in message we couldn't read",
+  DOMAIN_MISMATCH: "The sign-in message was created for a different site",
+  URI_MISMATCH: "The sign-in message was created for a different site",
+  CHAIN_NOT_ALLOWED: "Sign-in on this network isn't supported",
+  INVALID_ISSUED_AT: "Your device clock looks wrong. Check the time and try again",
+  MESSAGE_EXPIRED: "The sign-in request expired. Please try again",
+  MESSAGE_NOT_YET_VALID: "The sign-in request isn't valid yet. Check your device clock",
+  ADDRESS_MISMATCH: "The signing account doesn't match the connected account",
+  NONCE_COOKIE_MISMATCH: "This sign-in request was started in another browser. Please try again",
+  INVALID_NONCE: "The sign-in request expired or was already used. Please try again",
+  INVALID_SIGNATURE: "The signature couldn't be verified",
+  SIGNATURE_VERIFICATION_FAILED: "The signature couldn't be verified",
+  RATE_LIMITED: "Too many sign-in attempts. Please wait a moment and try again",
+  INVALID_QUICK_AUTH_TOKEN: "Your Farcaster sign-in couldn't be verified. Please try again",
+  IDENTITY_CONFLICT: "That account is already linked to a different Farcaster account",
+  INVALID_RECAP: "The permissions in the sign-in request couldn't be verified",
+};
+
 interface AuthState {
   isAuthenticated: boolean;
+  userId: string | null;
+  /** Wallet the session was signed in with (null for Farcaster sign-in) */
   address: string | null;
-  sessionToken: string | null;
+  /** Chain the session was signed in on */
+  chainId: number | null;
+  /** Farcaster ID linked to the user */
+  fid: number | null;
+  /** Every wallet linked to the user */
+  addresses: string[];
+  /** Role as of sign-in */
+  role: Role | null;
+  /** Onchain claims met at sign-in */
+  claims: string[];
+  /** Scopes the user granted at sign-in, with their caveats */
+  scopes: ScopeGrants;
   isLoading: boolean;
   error: string | null;
 }
 
-export function useAuth() {
-  const [authState, setAuthState] = useState<AuthState>({
-    isAuthenticated: false,
-    address: null,
-    sessionToken: null,
-    isLoading: true,
+const signedOutState: AuthState = {
+  isAuthenticated: false,
+  userId: null,
+  address: null,
+  chainId: null,
+  fid: null,
+  addresses: [],
+  role: null,
+  claims: [],
+  scopes: {},
+  isLoading: false,
+  error: null,
+};
+
+// Shape returned by the session, refresh and link routes
+interface SessionResponse {
+  userId?: string;
+  address?: string | null;
+  chainId?: number | null;
+  fid?: number | null;
+  addresses?: string[];
+  role?: Role;
+  claims?: string[];
+  scopes?: ScopeGrants;
+}
+
+/**
+ * Signed-in state for a server response
+ */
+function toAuthState(data: SessionResponse, previous: AuthState = signedOutState): AuthState {
+  return {
+    isAuthenticated: true,
+    userId: data.userId ?? previous.userId,
+    address: data.address ?? null,
+    chainId: data.chainId ?? null,
+    fid: data.fid ?? previous.fid,
+    addresses: data.addresses ?? previous.addresses,
+    role: data.role ?? previous.role,
+    claims: data.claims ?? previous.claims,
+    scopes: data.scopes ?? previous.scopes,
+    isLoading: false,
     error: null,
+  };
+}
+
+/**
+ * Explain a failed /api/auth response
+ */
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(VERIFY_ERROR_MESSAGES[errorData.code] || errorData.error || fallback);
+}
+
+/**
+ * Sign a SIWE message built here with a connected wallet (personal_sign)
+ */
+async function signWithWallet(wallet: WalletClient, nonce: string, chainId: number, scopes: ScopeGrants) {
+  if (!wallet.account) {
+    throw new Error("No account connected");
+  }
+
+  try {
+    await wallet.switchChain({ id: chainId });
+  } catch (switchError) {
+    // Chain might already be selected, or user might reject
+    console.warn("[useAuth] Chain switch:", (switchError as Error).message);
+  }
+
+  const { address } = wallet.account;
+  const message = createSignInMessage({ address, chainId, nonce, origin: window.location.origin, scopes });
+  const signature = await wallet.signMessage({ account: wallet.account, message });
+
+  console.log("[useAuth] Got signature for address:", address);
+  return { address, message, signature };
+}
+
+/**
+ * Ask the wallet to sign a SIWE message for a fresh nonce
+ * @param chainId - Chain to sign in on (the server verifies the signature there)
+ * @param scopes - Permissions to request as a ReCap on this origin
+ * @param wallet - Connected non-Base Account wallet to sign with, if any
+ */
+async function requestSiweSignature(chainId: number, scopes: ScopeGrants = {}, wallet?: WalletClient) {
+  // 1. Fetch nonce from server
+  const nonceResponse = await fetch("/api/auth/nonce");
+  if (!nonceResponse.ok) {
+    throw await responseError(nonceResponse, "Failed to fetch nonce");
+  }
+
+  const { nonce } = await nonceResponse.json();
+  console.log("[useAuth] Received nonce:", nonce);
+
+  if (wallet) {
+    return signWithWallet(wallet, nonce, chainId, scopes);
+  }
+
+  // 2. Get provider instance
+  const provider = getProvider();
+
+  // 3. Switch to the sign-in chain
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: numberToHex(chainId) }],
+    });
+  } catch (switchError: any) {
+    // Chain might already be selected, or user might reject
+    console.warn("[useAuth] Chain switch:", switchError.message);
+  }
+
+  // 4. Connect wallet with signInWithEthereum capability
+  // Requested scopes go in a ReCap resource, and the statement spells them out
+  const recap = Object.keys(scopes).length > 0 ? recapForScopes(window.location.origin, scopes) : null;
+  const result = await provider.request({
+    method: "wallet_connect",
+    params: [
+      {
+        version: "1",
+        capabilities: {
+          signInWithEthereum: {
+            nonce,
+            chainId: numberToHex(chainId),
+            ...(recap && { statement: recapStatement(recap), resources: [encodeRecap(recap)] }),
+          },
+        },
+      },
+    ],
   });
 
-  // Check for existing session on mount
-  useEffect(() => {
-    const checkSession = async () => {
-      try {
-        const storedToken = localStorage.getItem("sessionToken");
-        const storedAddress = localStorage.getItem("userAddress");
-
-        if (storedToken && storedAddress) {
-          // Verify session is still valid
-          const response = await fetch(`/api/auth/verify?token=${storedToken}`);
-
-          if (response.ok) {
-            setAuthState({
-              isAuthenticated: true,
-              address: storedAddress,
-              sessionToken: storedToken,
-              isLoading: false,
-              error: null,
-            });
-            return;
-          } else {
-            // Session expired or invalid, clear storage
-            localStorage.removeItem("sessionToken");
-            localStorage.removeItem("userAddress");
-          }
-        }
-      } catch (error) {
-        console.error("[useAuth] Session check failed:", error);
-      }
+  console.log("[useAuth] Wallet connect result:", result);
 
-      setAuthState((prev) => ({ ...prev, isLoading: false }));
-    };
+  // Extract address, message, and signature
+  const { accounts } = result as any;
+  if (!accounts || accounts.length === 0) {
+    throw new Error("No accounts returned from wallet");
+  }
+
+  const { address } = accounts[0];
+  const siweData = accounts[0].capabilities?.signInWithEthereum;
+
+  if (!siweData || !siweData.message || !siweData.signature) {
+    throw new Error("Missing SIWE data from wallet response");
+  }
+
+  console.log("[useAuth] Got signature for address:", address);
+
+  const { message, signature } = siweData;
+  return { address, message, signature };
+}
+
+function describeError(error: unknown, fallback: string): string {
+  const { code, message } = (error ?? {}) as { code?: number; message?: string };
+  return code === 4001 ? "User rejected signature request" : message || fallback;
+}
+
+export function useAuth() {
+  const [authState, setAuthState] = useState<AuthState>({ ...signedOutState, isLoading: true });
+
+  // Inside a Farcaster client, where Quick Auth is available
+  const [isMiniApp, setIsMiniApp] = useState(false);
+
+  // Stateless mode only: when the current access token expires
+  const [accessExpiresAt, setAccessExpiresAt] = useState<number | null>(null);
+
+  // Connected wallet, watched against the session
+  const { address: walletAddress, chainId: walletChainId, isConnected, connector } = useAccount();
+  const { data: walletClient } = useWalletClient();
 
-    checkSession();
+  // Wallets other than Base Account sign in themselves rather than through the SDK
+  const injectedWallet = connector && connector.type !== coinbaseWallet.type ? walletClient : undefined;
+
+  // Tab-to-tab messages (null where BroadcastChannel is unavailable)
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const broadcast = useCallback((message: AuthBroadcast) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const setSignedOut = useCallback((error: string | null = null) => {
+    setAccessExpiresAt(null);
+    setAuthState({ ...signedOutState, error });
   }, []);
 
   /**
-   * Sign in with Base
-   * Initiates Sign in with Ethereum flow
+   * Exchange the refresh cookie for a new access token
+   * @returns the signed-in user, or null if the session is gone
    */
-  const signIn = async (): Promise<{ success: boolean; error?: string }> => {
-    try {
-      setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+  const refresh = useCallback(async (): Promise<SessionResponse | null> => {
+    const response = await fetch("/api/auth/refresh", { method: "POST" });
+    if (!response.ok) {
+      setAccessExpiresAt(null);
+      return null;
+    }
+    const data = await response.json();
+    setAccessExpiresAt(data.accessExpiresAt);
+    broadcast({ type: "refreshed", accessExpiresAt: data.accessExpiresAt });
+    return data;
+  }, [broadcast]);
 
-      console.log("[useAuth] Starting sign in flow...");
+  /**
+   * Load the session from the cookie, refreshing it if the access token expired
+   */
+  const restoreSession = useCallback(async () => {
+    try {
+      // Session cookie is sent automatically
+      const response = await fetch("/api/auth/session");
+
+      if (response.ok) {
+        const data = await response.json();
+        setAccessExpiresAt(data.mode === "stateless" ? data.expiresAt : null);
+        setAuthState(toAuthState(data));
+        return;
+      }
 
-      // 1. Fetch nonce from server
-      const nonceResponse = await fetch("/api/auth/nonce");
-      if (!nonceResponse.ok) {
-        throw new Error("Failed to fetch nonce");
+      // Access token may have expired while the page was closed (stateless mode)
+      const refreshed = await refresh();
+      if (refreshed) {
+        setAuthState(toAuthState(refreshed));
+        return;
       }
+    } catch (error) {
+      console.error("[useAuth] Session check failed:", error);
+    }
 
-      const { nonce } = await nonceResponse.json();
-      console.log("[useAuth] Received nonce:", nonce);
+    setAuthState((prev) => ({ ...prev, isLoading: false }));
+  }, [refresh]);
 
-      // 2. Get provider instance
-      const provider = getProvider();
+  // Check for existing session on mount
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
 
-      // 3. Switch to Base Sepolia
-      try {
-        await provider.request({
-          method: "wallet_switchEthereumChain",
-          params: [{ chainId: numberToHex(base.constants.CHAIN_IDS.baseSepolia) }],
-        });
-      } catch (switchError: any) {
-        // Chain might already be selected, or user might reject
-        console.warn("[useAuth] Chain switch:", switchError.message);
+  // Detect a Farcaster client (resolves false in a plain browser)
+  useEffect(() => {
+    sdk.isInMiniApp().then(setIsMiniApp).catch(() => setIsMiniApp(false));
+  }, []);
+
+  // Follow sign-in, sign-out and refreshes from other tabs
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") {
+      return;
+    }
+
+    const channel = new BroadcastChannel(AUTH_CHANNEL);
+    channel.onmessage = (event: MessageEvent<AuthBroadcast>) => {
+      switch (event.data.type) {
+        case "signed-in":
+        case "linked":
+          restoreSession();
+          break;
+        case "signed-out":
+          setSignedOut();
+          break;
+        case "refreshed":
+          setAccessExpiresAt(event.data.accessExpiresAt);
+          break;
       }
+    };
+    channelRef.current = channel;
 
-      // 4. Connect wallet with signInWithEthereum capability
-      const result = await provider.request({
-        method: "wallet_connect",
-        params: [
-          {
-            version: "1",
-            capabilities: {
-              signInWithEthereum: {
-                nonce,
-                chainId: numberToHex(base.constants.CHAIN_IDS.baseSepolia),
-              },
-            },
-          },
-        ],
-      });
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [restoreSession, setSignedOut]);
 
-      console.log("[useAuth] Wallet connect result:", result);
+  // Refresh the access token before it expires
+  useEffect(() => {
+    if (!accessExpiresAt) {
+      return;
+    }
 
-      // Extract address, message, and signature
-      const { accounts } = result as any;
-      if (!accounts || accounts.length === 0) {
-        throw new Error("No accounts returned from wallet");
+    const delay = Math.max(accessExpiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+    // Refresh tokens are single-use and every tab shares the cookie, so tabs take
+    // turns and skip the refresh if another tab already did it
+    const refreshOnce = async () => {
+      const current = await fetch("/api/auth/session");
+      if (current.ok) {
+        const { expiresAt } = await current.json();
+        if (expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+          setAccessExpiresAt(expiresAt);
+          return true;
+        }
       }
 
-      const { address } = accounts[0];
-      const siweData = accounts[0].capabilities?.signInWithEthereum;
+      const refreshed = await refresh();
+      return refreshed !== null;
+    };
 
-      if (!siweData || !siweData.message || !siweData.signature) {
-        throw new Error("Missing SIWE data from wallet response");
+    const timer = setTimeout(async () => {
+      try {
+        // Without locks, tabs may refresh together; the server's grace window covers that
+        const refreshed = navigator.locks
+          ? await navigator.locks.request(REFRESH_LOCK, refreshOnce)
+          : await refreshOnce();
+        if (!refreshed) {
+          console.warn("[useAuth] Session could not be refreshed, signing out");
+          setSignedOut("Your session has ended. Please sign in again");
+        }
+      } catch (error) {
+        // Network error: keep the current state; API calls return 401 once the token expires
+        console.error("[useAuth] Token refresh failed:", error);
       }
+    }, delay);
 
-      const { message, signature } = siweData;
+    return () => clearTimeout(timer);
+  }, [accessExpiresAt, refresh, setSignedOut]);
 
-      console.log("[useAuth] Got signature for address:", address);
+  /**
+   * Send a credential to the session route and store the signed-in user
+   * @param init - The credential: a SIWE body or a Quick Auth Authorization header
+   */
+  const startSession = async (init: RequestInit) => {
+    const response = await fetch("/api/auth/session", { method: "POST", ...init });
+    if (!response.ok) {
+      throw await responseError(response, "Signature verification failed");
+    }
 
-      // 5. Verify signature on backend
-      const verifyResponse = await fetch("/api/auth/verify", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ address, message, signature }),
-      });
+    // Session cookie is set by the server
+    const data = await response.json();
+    setAccessExpiresAt(data.accessExpiresAt ?? null);
 
-      if (!verifyResponse.ok) {
-        const errorData = await verifyResponse.json();
-        throw new Error(errorData.error || "Signature verification failed");
-      }
+    console.log("[useAuth] Authentication successful!");
+    broadcast({ type: "signed-in" });
+    setAuthState(toAuthState(data));
+  };
 
-      const { sessionToken } = await verifyResponse.json();
+  /**
+   * Sign in with Base
+   * Initiates Sign in with Ethereum flow
+   * @param chainId - Chain to sign in on (the server verifies the signature there)
+   * @param scopes - Permissions to ask the user for
+   */
+  const signIn = async (
+    chainId: number = DEFAULT_SIGN_IN_CHAIN_ID,
+    scopes: ScopeGrants = DEFAULT_SCOPE_REQUEST
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
 
-      console.log("[useAuth] Authentication successful!");
+      console.log("[useAuth] Starting sign in flow...");
 
-      // 6. Store session
-      localStorage.setItem("sessionToken", sessionToken);
-      localStorage.setItem("userAddress", address);
+      const credential = await requestSiweSignature(chainId, scopes, injectedWallet);
 
-      setAuthState({
-        isAuthenticated: true,
-        address,
-        sessionToken,
-        isLoading: false,
-        error: null,
+      // 5. Verify signature on backend
+      await startSession({
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credential),
       });
 
       return { success: true };
     } catch (error: any) {
       console.error("[useAuth] Sign in failed:", error);
 
-      const errorMessage =
-        error.code === 4001
-          ? "User rejected signature request"
-          : error.message || "Authentication failed";
+      const errorMessage = describeError(error, "Authentication failed");
+      setAuthState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: errorMessage,
+      }));
+
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Sign in with Farcaster
+   * Only works inside a Farcaster client, which issues the Quick Auth token
+   */
+  const signInWithFarcaster = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+      const { token } = await sdk.quickAuth.getToken();
+      await startSession({ headers: { Authorization: `Bearer ${token}` } });
+
+      return { success: true };
+    } catch (error) {
+      console.error("[useAuth] Farcaster sign in failed:", error);
 
+      const errorMessage = describeError(error, "Farcaster sign in failed");
       setAuthState((prev) => ({
         ...prev,
         isLoading: false,
@@ -195,51 +527,129 @@ export function useAuth() {
   };
 
   /**
-   * Sign out
-   * Invalidates session and clears local storage
+   * Prove another identity and link it to the signed-in user
+   * @param init - The credential: a SIWE body or a Quick Auth Authorization header
    */
-  const signOut = async () => {
+  const link = async (init: RequestInit): Promise<{ success: boolean; error?: string }> => {
     try {
-      const { sessionToken } = authState;
-
-      if (sessionToken) {
-        // Call backend to invalidate session
-        await fetch("/api/auth/verify", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ token: sessionToken }),
-        });
+      const response = await fetch("/api/auth/link", { method: "POST", ...init });
+      if (!response.ok) {
+        throw await responseError(response, "Linking failed");
       }
 
-      // Clear local storage
-      localStorage.removeItem("sessionToken");
-      localStorage.removeItem("userAddress");
+      const data = await response.json();
+      setAuthState((prev) => ({ ...prev, fid: data.fid, addresses: data.addresses, error: null }));
+      broadcast({ type: "linked" });
 
-      setAuthState({
-        isAuthenticated: false,
-        address: null,
-        sessionToken: null,
-        isLoading: false,
-        error: null,
+      return { success: true };
+    } catch (error) {
+      console.error("[useAuth] Linking failed:", error);
+
+      const errorMessage = describeError(error, "Linking failed");
+      setAuthState((prev) => ({ ...prev, error: errorMessage }));
+
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Link the wallet to the signed-in user with a SIWE signature
+   * @param chainId - Chain to sign on
+   */
+  const linkWallet = async (chainId: number = DEFAULT_SIGN_IN_CHAIN_ID) => {
+    try {
+      const credential = await requestSiweSignature(chainId, {}, injectedWallet);
+      return await link({
+        headers: { "Content-Type": "application/json", ...csrfHeaders() },
+        body: JSON.stringify(credential),
       });
+    } catch (error) {
+      const errorMessage = describeError(error, "Linking failed");
+      setAuthState((prev) => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Sign a fresh SIWE message with the wallet, for routes that want proof
+   * beyond the session cookie (e.g. registering the first passkey)
+   */
+  const proveWallet = () =>
+    requestSiweSignature(authState.chainId ?? DEFAULT_SIGN_IN_CHAIN_ID, {}, injectedWallet);
+
+  /**
+   * Link the Farcaster account of the current Farcaster client
+   */
+  const linkFarcaster = async () => {
+    try {
+      const { token } = await sdk.quickAuth.getToken();
+      return await link({ headers: { Authorization: `Bearer ${token}`, ...csrfHeaders() } });
+    } catch (error) {
+      const errorMessage = describeError(error, "Linking failed");
+      setAuthState((prev) => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
 
+  /**
+   * Sign out
+   * Invalidates the session and clears the session cookie (in every tab)
+   */
+  const signOut = useCallback(async (reason: string | null = null) => {
+    try {
+      // Call backend to invalidate session
+      await fetch("/api/auth/session", {
+        method: "DELETE",
+        headers: csrfHeaders(),
+      });
       console.log("[useAuth] Signed out successfully");
     } catch (error) {
-      console.error("[useAuth] Sign out failed:", error);
       // Still clear local state even if server call fails
-      setAuthState({
-        isAuthenticated: false,
-        address: null,
-        sessionToken: null,
-        isLoading: false,
-        error: null,
-      });
+      console.error("[useAuth] Sign out failed:", error);
     }
-  };
+
+    setSignedOut(reason);
+    broadcast({ type: "signed-out" });
+  }, [broadcast, setSignedOut]);
+
+  // Connected wallet is one of the user's linked wallets
+  const walletLinked =
+    !walletAddress ||
+    authState.addresses.some((address) => isAddressEqual(walletAddress, address as `0x${string}`));
+
+  useEffect(() => {
+    // Farcaster sessions didn't sign in with a wallet; they are prompted to link it instead
+    if (!authState.isAuthenticated || !authState.address || !isConnected || walletLinked) {
+      return;
+    }
+    console.warn("[useAuth] Wallet account changed, signing out:", walletAddress);
+    signOut("Your wallet switched to a different account. Sign in again to continue");
+  }, [authState.isAuthenticated, authState.address, isConnected, walletAddress, walletLinked, signOut]);
+
+  // Signed in on one chain, wallet now on another
+  const chainMismatch =
+    authState.isAuthenticated &&
+    isConnected &&
+    walletChainId !== undefined &&
+    authState.chainId !== null &&
+    walletChainId !== authState.chainId;
 
   return {
     ...authState,
+    isMiniApp,
+    walletLinked,
+    hasRole: (required: Role) => hasRole(authState.role, required),
+    hasClaim: (claim: string) => authState.claims.includes(claim),
+    hasScope: (scope: Scope) => !!authState.scopes[scope],
+    chainMismatch,
+    walletChainId,
     signIn,
+    signInWithFarcaster,
+    linkWallet,
+    linkFarcaster,
+    proveWallet,
     signOut,
   };
 }
+
+export type AuthContextValue = ReturnType<typeof useAuth>;
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * useDebouncedValue Hook
+ *
+ * Purpose: Follow a value only once it has stopped changing for delayMs,
+ * e.g. to look a name up after the user stops typing
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
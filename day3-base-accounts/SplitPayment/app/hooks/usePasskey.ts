@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
+import { csrfHeaders } from "@/lib/authCookies";
+
+/**
+ * usePasskey Hook
+ *
+ * Purpose: Step up the signed-in session with a passkey before sensitive
+ * actions (large splits, changing saved recipients, exporting collected data)
+ *
+ * Features:
+ * - Register a passkey for the wallet the session signed in with; the first one
+ *   also asks the wallet for a fresh signature
+ * - Confirm with it (step-up); the session stays stepped up for a few minutes,
+ *   so several sensitive actions in a row prompt only once
+ * - ensureStepUp: register if needed, then confirm; skipped inside the window
+ *
+ * Routes gated with requireStepUp() answer 403 STEP_UP_REQUIRED until then.
+ * See lib/passkeys.ts for the server side.
+ */
+
+// Prompt again if the step-up would lapse within this long
+const STEP_UP_MARGIN_MS = 10 * 1000;
+
+// Explanations for the error codes returned by the /api/auth/passkey routes
+const PASSKEY_ERROR_MESSAGES: Record<string, string> = {
+  PASSKEY_UNAVAILABLE: "Sign in with a wallet to use a passkey",
+  PASSKEY_NOT_REGISTERED: "Add a passkey first",
+  PASSKEY_VERIFICATION_FAILED: "Your passkey couldn't be verified. Please try again",
+  WALLET_PROOF_REQUIRED: "Sign with your wallet to add your first passkey",
+  ADDRESS_MISMATCH: "Sign with the wallet you signed in with to add a passkey",
+  STEP_UP_REQUIRED: "Confirm with your existing passkey before adding another",
+};
+
+interface PasskeyState {
+  /** The session's address has a passkey */
+  registered: boolean;
+  /** When the current step-up lapses (null if not stepped up) */
+  stepUpExpiresAt: number | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+type PasskeyResult = { success: boolean; error?: string };
+
+function describeError(error: unknown, fallback: string): string {
+  const { name, message } = (error ?? {}) as { name?: string; message?: string };
+  return name === "NotAllowedError" ? "Passkey request was cancelled" : message || fallback;
+}
+
+async function request(path: string, init?: RequestInit) {
+  const response = await fetch(path, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(PASSKEY_ERROR_MESSAGES[data.code] ?? data.error ?? "Passkey request failed");
+  }
+  return data;
+}
+
+const post = (path: string, body: unknown) =>
+  request(path, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...csrfHeaders() },
+    body: JSON.stringify(body),
+  });
+
+// Fresh SIWE body from the session's wallet (proveWallet from useAuth)
+type WalletProof = () => Promise<{ address: string; message: string; signature: string }>;
+
+/**
+ * @param isAuthenticated - passkey state is loaded once signed in
+ * @param proveWallet - wallet signature required to register the first passkey
+ */
+export function usePasskey(isAuthenticated: boolean, proveWallet: WalletProof) {
+  const [state, setState] = useState<PasskeyState>({
+    registered: false,
+    stepUpExpiresAt: null,
+    isLoading: false,
+    error: null,
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      const { registered, stepUpExpiresAt } = await request("/api/auth/passkey");
+      setState((prev) => ({ ...prev, registered, stepUpExpiresAt }));
+    } catch (error) {
+      console.error("Passkey status check failed:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refresh();
+    } else {
+      setState({ registered: false, stepUpExpiresAt: null, isLoading: false, error: null });
+    }
+  }, [isAuthenticated, refresh]);
+
+  /**
+   * Run one passkey ceremony; a step-up returns when it lapses
+   */
+  const run = async (ceremony: () => Promise<{ stepUpExpiresAt?: number }>, fallback: string): Promise<PasskeyResult> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const { stepUpExpiresAt } = await ceremony();
+      setState((prev) => ({
+        registered: true,
+        stepUpExpiresAt: stepUpExpiresAt ?? prev.stepUpExpiresAt,
+        isLoading: false,
+        error: null,
+      }));
+      return { success: true };
+    } catch (error) {
+      console.error(fallback, error);
+      const errorMessage = describeError(error, fallback);
+      setState((prev) => ({ ...prev, isLoading: false, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Add a passkey for the session's wallet
+   */
+  const register = () =>
+    run(async () => {
+      const siwe = state.registered ? undefined : await proveWallet();
+      const optionsJSON = await request("/api/auth/passkey/register");
+      const response = await startRegistration({ optionsJSON });
+      await post("/api/auth/passkey/register", { response, siwe });
+      return {};
+    }, "Passkey registration failed");
+
+  /**
+   * Confirm with a registered passkey
+   */
+  const stepUp = () =>
+    run(async () => {
+      const optionsJSON = await request("/api/auth/passkey/step-up");
+      return post("/api/auth/passkey/step-up", await startAuthentication({ optionsJSON }));
+    }, "Passkey confirmation failed");
+
+  const isSteppedUp = () =>
+    state.stepUpExpiresAt !== null && state.stepUpExpiresAt - STEP_UP_MARGIN_MS > Date.now();
+
+  /**
+   * Make sure the session is stepped up, prompting only when it has to
+   */
+  const ensureStepUp = async (): Promise<PasskeyResult> => {
+    if (isSteppedUp()) {
+      return { success: true };
+    }
+    if (!state.registered) {
+      const registered = await register();
+      if (!registered.success) {
+        return registered;
+      }
+    }
+    return stepUp();
+  };
+
+  return {
+    ...state,
+    refresh,
+    register,
+    stepUp,
+    isSteppedUp,
+    ensureStepUp,
+  };
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { csrfHeaders } from "@/lib/authCookies";
+import type { SplitGroup, SplitGroupInput } from "@/lib/splitGroups";
+
+/**
+ * useSplitGroups Hook
+ *
+ * Purpose: The signed-in wallet's saved split groups (/api/splits/groups)
+ *
+ * Features:
+ * - List, save, update and delete groups
+ * - Changing what a group pays out, or deleting it, needs a passkey step-up;
+ *   the hook runs it (ensureStepUp from usePasskey) and retries once
+ *
+ * Needs the splits/store scope granted at sign-in; without it the routes answer
+ * 403 SCOPE_REQUIRED and `available` stays false.
+ */
+
+// Explanations for the error codes returned by the /api/splits/groups routes
+const SPLIT_GROUP_ERROR_MESSAGES: Record<string, string> = {
+  SCOPE_REQUIRED: "Sign in again and allow storing split groups to save groups",
+  SPLIT_GROUPS_UNAVAILABLE: "Sign in with a wallet to save split groups",
+  SPLIT_GROUP_NOT_FOUND: "That group no longer exists",
+  STEP_UP_REQUIRED: "Confirm with your passkey to change or delete a saved group",
+};
+
+interface SplitGroupsState {
+  groups: SplitGroup[];
+  /** The session may store groups */
+  available: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+type SplitGroupResult = { success: true; group?: SplitGroup } | { success: false; error: string };
+
+class SplitGroupError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+  }
+}
+
+async function request(path: string, method = "GET", body?: unknown) {
+  const response = await fetch(path, {
+    method,
+    headers: method === "GET" ? undefined : { "content-type": "application/json", ...csrfHeaders() },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new SplitGroupError(
+      SPLIT_GROUP_ERROR_MESSAGES[data.code] ?? data.error ?? "Split group request failed",
+      data.code
+    );
+  }
+  return data;
+}
+
+/**
+ * @param isAuthenticated - groups are loaded once signed in
+ * @param ensureStepUp - passkey confirmation, run when a change needs it
+ */
+export function useSplitGroups(
+  isAuthenticated: boolean,
+  ensureStepUp: () => Promise<{ success: boolean; error?: string }>
+) {
+  const [state, setState] = useState<SplitGroupsState>({
+    groups: [],
+    available: false,
+    isLoading: false,
+    error: null,
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      const { groups } = await request("/api/splits/groups");
+      setState((prev) => ({ ...prev, groups, available: true }));
+    } catch (error) {
+      // Sessions without the scope simply have no groups
+      if (!(error instanceof SplitGroupError && error.code)) {
+        console.error("Loading split groups failed:", error);
+      }
+      setState((prev) => ({ ...prev, groups: [], available: false }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refresh();
+    } else {
+      setState({ groups: [], available: false, isLoading: false, error: null });
+    }
+  }, [isAuthenticated, refresh]);
+
+  /**
+   * Run one change and reload the list
+   */
+  const run = async (change: () => Promise<{ group?: SplitGroup }>, fallback: string): Promise<SplitGroupResult> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const { group } = await change();
+      await refresh();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return { success: true, group };
+    } catch (error) {
+      console.error(fallback, error);
+      const errorMessage = error instanceof Error ? error.message : fallback;
+      setState((prev) => ({ ...prev, isLoading: false, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Send a change, confirming with a passkey and retrying if the route asks
+   */
+  const withStepUp = async (path: string, method: string, body?: unknown) => {
+    try {
+      return await request(path, method, body);
+    } catch (error) {
+      if (!(error instanceof SplitGroupError && error.code === "STEP_UP_REQUIRED")) {
+        throw error;
+      }
+      const confirmed = await ensureStepUp();
+      if (!confirmed.success) {
+        throw new Error(confirmed.error || error.message);
+      }
+      return request(path, method, body);
+    }
+  };
+
+  /**
+   * Save the form as a new group
+   */
+  const create = (input: SplitGroupInput) =>
+    run(() => request("/api/splits/groups", "POST", input), "Saving split group failed");
+
+  /**
+   * Replace a group, confirming with a passkey if what it pays out changes
+   */
+  const update = (id: string, input: SplitGroupInput) =>
+    run(() => withStepUp(`/api/splits/groups/${encodeURIComponent(id)}`, "PUT", input), "Updating split group failed");
+
+  /**
+   * Delete a group, confirming with a passkey
+   */
+  const remove = (id: string) =>
+    run(() => withStepUp(`/api/splits/groups/${encodeURIComponent(id)}`, "DELETE"), "Deleting split group failed");
+
+  return {
+    ...state,
+    refresh,
+    create,
+    update,
+    remove,
+  };
+}
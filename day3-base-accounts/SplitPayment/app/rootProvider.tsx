@@ -5,6 +5,7 @@ import { OnchainKitProvider } from "@coinbase/onchainkit";
 import { WagmiProvider, type State } from "wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { getConfig } from "./wagmi";
+import { AuthProvider } from "./components/AuthProvider";
 import "@coinbase/onchainkit/styles.css";
 
 export function RootProvider({
@@ -21,7 +22,7 @@ export function RootProvider({
     <WagmiProvider config={config} initialState={initialState}>
       <QueryClientProvider client={queryClient}>
         <OnchainKitProvider chain={base}>
-          {children}
+          <AuthProvider>{children}</AuthProvider>
         </OnchainKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
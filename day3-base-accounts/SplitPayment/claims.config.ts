@@ -0,0 +1,37 @@
+import type { ClaimRule } from '@/lib/claims';
+
+/**
+ * Sign-in claim configuration
+ *
+ * Each rule is checked onchain for the user's linked addresses when they sign
+ * in; a claim holds if any address meets it. Claims are stored on the session,
+ * so features can be gated on them (useAuth().hasClaim on the client,
+ * requireClaim in routes).
+ *
+ * Rule types:
+ * - erc20Balance: holds at least minBalance (raw token units) of an ERC-20
+ * - erc721Owner: owns at least minCount (default 1) tokens of an ERC-721
+ * - attestation: has a valid (unrevoked, unexpired) Coinbase Verifications
+ *   attestation with the given schema
+ *
+ * Reads use the chains in lib/chains.ts; a chain not listed there makes its
+ * rule fail. Leave the list empty to skip onchain checks at sign-in.
+ */
+export const claimRules: ClaimRule[] = [
+  {
+    // Pays gas in USDC (GasPaymentToggle); the paymaster charges from this balance.
+    // Required by /api/sponsor (SPONSOR_CLAIM in lib/sponsor.ts)
+    claim: 'usdcHolder',
+    type: 'erc20Balance',
+    chainId: 84532, // Base Sepolia
+    token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    minBalance: '1000000', // 1 USDC
+  },
+  {
+    // Sends large splits (see splitSize in lib/splitTokens.ts)
+    claim: 'coinbaseVerified',
+    type: 'attestation',
+    chainId: 8453, // Base
+    schemaId: '0xf8b05c79f090979bf4a80270aba232dff11a10d9ca55c4f88de95317970f0de9',
+  },
+];
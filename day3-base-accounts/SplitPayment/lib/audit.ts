@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getAddress, isAddress } from 'viem';
+import { getDb } from './db';
+import { getClientIp } from './rateLimit';
+
+/**
+ * Auth Audit Log
+ *
+ * Structured record of every auth outcome and why it happened
+ *
+ * Entries:
+ * - event: what happened (nonce.issued, verify.failed, session.created, identity.linked, ...)
+ * - outcome: success or failure, with a machine-readable reason for failures
+ * - address, ip and user agent when known
+ * - details: extra context; secrets (nonces, tokens, signatures, SIWE messages)
+ *   are replaced by a short fingerprint so entries can still be correlated
+ *
+ * Sinks:
+ * - stdout: one JSON line per entry (default, not queryable)
+ * - file: JSON lines appended to AUDIT_LOG_PATH
+ * - sqlite: audit_log table in the shared database
+ *
+ * Configuration:
+ * - AUDIT_SINK=stdout | file | sqlite
+ * - AUDIT_LOG_PATH: file sink path (default: .data/audit.log)
+ */
+
+export type AuditEvent =
+  | 'nonce.issued'
+  | 'nonce.expired'
+  | 'verify.failed'
+  | 'session.created'
+  | 'session.refreshed'
+  | 'session.refresh_failed'
+  | 'session.signed_out'
+  | 'session.revoked'
+  | 'identity.linked'
+  | 'identity.link_failed'
+  | 'role.granted'
+  | 'role.revoked'
+  | 'passkey.registered'
+  | 'passkey.stepped_up'
+  | 'passkey.failed'
+  | 'access.denied'
+  | 'rate_limited';
+
+export interface AuditEntry {
+  time: number;
+  event: AuditEvent;
+  outcome: 'success' | 'failure';
+  /** Error code explaining a failure, e.g. INVALID_SIGNATURE */
+  reason?: string;
+  address?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  /** Any casing; matched against the checksummed address */
+  address?: string;
+  /** Inclusive time range (ms since epoch) */
+  from?: number;
+  to?: number;
+  event?: AuditEvent;
+  /** Newest entries first, at most this many (default 100) */
+  limit?: number;
+}
+
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>;
+  /** Not every sink can be searched; stdout entries belong to the log collector */
+  query?(filter: AuditFilter): Promise<AuditEntry[]>;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+// Keys whose values are secrets or contain them
+const SECRET_KEY = /nonce|token|signature|secret|cookie|message|password/i;
+
+function fingerprint(value: unknown): string {
+  const hash = crypto.createHash('sha256').update(String(value)).digest('hex');
+  return `[redacted:${hash.slice(0, 8)}]`;
+}
+
+/**
+ * Replace secret values with fingerprints, recursively
+ */
+export function redact(details: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(details)) {
+    if (value === undefined || value === null) {
+      result[key] = value;
+    } else if (SECRET_KEY.test(key)) {
+      result[key] = fingerprint(value);
+    } else if (typeof value === 'object' && !Array.isArray(value)) {
+      result[key] = redact(value as Record<string, unknown>);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// Checksummed so every sink stores and matches addresses the same way
+function normalizeAddress(address: string): string {
+  return isAddress(address, { strict: false }) ? getAddress(address) : address;
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (
+    (!filter.address || entry.address === normalizeAddress(filter.address)) &&
+    (filter.from === undefined || entry.time >= filter.from) &&
+    (filter.to === undefined || entry.time <= filter.to) &&
+    (!filter.event || entry.event === filter.event)
+  );
+}
+
+/**
+ * Stdout sink: JSON lines for the platform's log collector
+ */
+export function createStdoutAuditSink(): AuditSink {
+  return {
+    async write(entry) {
+      console.log(JSON.stringify({ type: 'audit', ...entry }));
+    },
+  };
+}
+
+/**
+ * File sink: JSON lines, queried by scanning the file
+ */
+export function createFileAuditSink(
+  file = process.env.AUDIT_LOG_PATH || path.join(process.cwd(), '.data', 'audit.log')
+): AuditSink {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  return {
+    async write(entry) {
+      await fs.promises.appendFile(file, JSON.stringify(entry) + '\n');
+    },
+    async query(filter) {
+      let contents: string;
+      try {
+        contents = await fs.promises.readFile(file, 'utf8');
+      } catch {
+        return [];
+      }
+
+      const entries: AuditEntry[] = [];
+      for (const line of contents.split('\n')) {
+        if (!line) continue;
+        try {
+          const entry = JSON.parse(line) as AuditEntry;
+          if (matches(entry, filter)) {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip a partially written line
+        }
+      }
+      return entries.reverse().slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+    },
+  };
+}
+
+interface AuditRow {
+  time: number;
+  event: AuditEvent;
+  outcome: 'success' | 'failure';
+  reason: string | null;
+  address: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  details: string | null;
+}
+
+/**
+ * SQLite sink: indexed by address and time
+ */
+export function createSqliteAuditSink(): AuditSink {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      time INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      reason TEXT,
+      address TEXT,
+      ip TEXT,
+      user_agent TEXT,
+      details TEXT
+    );
+    CREATE INDEX IF NOT EXISTS audit_log_address_time ON audit_log (address, time);
+    CREATE INDEX IF NOT EXISTS audit_log_time ON audit_log (time);
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO audit_log (time, event, outcome, reason, address, ip, user_agent, details)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  return {
+    async write(entry) {
+      insert.run(
+        entry.time,
+        entry.event,
+        entry.outcome,
+        entry.reason ?? null,
+        entry.address ?? null,
+        entry.ip ?? null,
+        entry.userAgent ?? null,
+        entry.details ? JSON.stringify(entry.details) : null
+      );
+    },
+    async query(filter) {
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      if (filter.address) {
+        conditions.push('address = ?');
+        params.push(normalizeAddress(filter.address));
+      }
+      if (filter.from !== undefined) {
+        conditions.push('time >= ?');
+        params.push(filter.from);
+      }
+      if (filter.to !== undefined) {
+        conditions.push('time <= ?');
+        params.push(filter.to);
+      }
+      if (filter.event) {
+        conditions.push('event = ?');
+        params.push(filter.event);
+      }
+      params.push(filter.limit ?? DEFAULT_QUERY_LIMIT);
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const rows = db
+        .prepare<(string | number)[], AuditRow>(`SELECT * FROM audit_log ${where} ORDER BY time DESC, id DESC LIMIT ?`)
+        .all(...params);
+
+      return rows.map((row) => ({
+        time: row.time,
+        event: row.event,
+        outcome: row.outcome,
+        ...(row.reason && { reason: row.reason }),
+        address: row.address,
+        ip: row.ip,
+        userAgent: row.user_agent,
+        ...(row.details && { details: JSON.parse(row.details) }),
+      }));
+    },
+  };
+}
+
+// Global sink using globalThis to persist across module reloads
+const globalForAudit = globalThis as unknown as {
+  auditSink: AuditSink | undefined;
+};
+
+/**
+ * Get the configured audit sink (created on first use from AUDIT_SINK)
+ */
+export function getAuditSink(): AuditSink {
+  if (!globalForAudit.auditSink) {
+    switch (process.env.AUDIT_SINK) {
+      case 'file':
+        globalForAudit.auditSink = createFileAuditSink();
+        break;
+      case 'sqlite':
+        globalForAudit.auditSink = createSqliteAuditSink();
+        break;
+      default:
+        globalForAudit.auditSink = createStdoutAuditSink();
+    }
+  }
+  return globalForAudit.auditSink;
+}
+
+/**
+ * Replace the audit sink, e.g. with one that ships entries elsewhere
+ */
+export function setAuditSink(sink: AuditSink) {
+  globalForAudit.auditSink = sink;
+}
+
+export interface AuditInput {
+  event: AuditEvent;
+  outcome: 'success' | 'failure';
+  reason?: string;
+  address?: string | null;
+  /** Request the event belongs to; supplies ip and user agent */
+  request?: Request;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an auth event
+ * Never throws: a failing sink must not break sign-in
+ */
+export async function audit({ event, outcome, reason, address, request, details }: AuditInput) {
+  const entry: AuditEntry = {
+    time: Date.now(),
+    event,
+    outcome,
+    ...(reason && { reason }),
+    address: address ? normalizeAddress(address) : null,
+    ip: request ? getClientIp(request) : null,
+    userAgent: request?.headers.get('user-agent') ?? null,
+    ...(details && { details: redact(details) }),
+  };
+
+  try {
+    await getAuditSink().write(entry);
+  } catch (error) {
+    console.error('[Audit] Failed to write entry:', event, error);
+  }
+}
+
+/**
+ * Search the audit log
+ * @returns matching entries (newest first), or null if the sink can't be queried
+ */
+export async function queryAuditLog(filter: AuditFilter): Promise<AuditEntry[] | null> {
+  const sink = getAuditSink();
+  return sink.query ? sink.query(filter) : null;
+}
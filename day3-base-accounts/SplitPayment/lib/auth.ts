@@ -2,34 +2,39 @@
  * Shared Authentication Utilities
  *
  * Provides nonce management for SIWE authentication
- * Uses global singleton pattern to ensure nonces persist across API routes
+ * Nonces live in the configured NonceStore (see lib/nonceStore.ts)
  */
 
-// Global nonce store using globalThis to persist across module reloads
-const globalForNonces = globalThis as unknown as {
-  nonces: Set<string> | undefined;
-};
+import { getNonceStore } from './nonceStore';
+import { sign, unsign } from './hmac';
+
+// Nonces expire after 10 minutes
+export const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Cookie binding an issued nonce to the browser that requested it
+export const NONCE_COOKIE = 'siwe_nonce';
 
-// Initialize or reuse existing nonce store
-export const nonces = globalForNonces.nonces ?? new Set<string>();
+// The cookie outlives its nonce so verify can tell an expired nonce from a reused one
+export const nonceCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/api/auth',
+  maxAge: (2 * NONCE_TTL_MS) / 1000,
+};
 
-if (process.env.NODE_ENV !== 'production') {
-  globalForNonces.nonces = nonces;
+export interface NonceCookie {
+  nonce: string;
+  issuedAt: number;
 }
 
 /**
  * Add nonce with automatic expiration
  * @param nonce - The nonce string to add
+ * @param client - Who it was issued to (client IP), for the per-client cap
  */
-export function addNonce(nonce: string) {
-  nonces.add(nonce);
-  console.log('[Auth] Nonce added. Total:', nonces.size, 'Nonces:', Array.from(nonces));
-
-  // Automatically expire after 10 minutes
-  setTimeout(() => {
-    nonces.delete(nonce);
-    console.log('[Auth] Nonce expired:', nonce);
-  }, 10 * 60 * 1000);
+export async function addNonce(nonce: string, client?: string) {
+  await getNonceStore().add(nonce, NONCE_TTL_MS, client);
 }
 
 /**
@@ -37,24 +42,48 @@ export function addNonce(nonce: string) {
  * @param nonce - The nonce to verify
  * @returns true if nonce exists
  */
-export function verifyNonce(nonce: string): boolean {
-  const exists = nonces.has(nonce);
-  console.log('[Auth] Verifying nonce:', {
-    nonce,
-    exists,
-    totalNonces: nonces.size,
-    available: Array.from(nonces),
-  });
-  return exists;
+export async function verifyNonce(nonce: string): Promise<boolean> {
+  return getNonceStore().has(nonce);
 }
 
 /**
  * Consume nonce (one-time use)
  * @param nonce - The nonce to consume
- * @returns true if nonce was consumed
+ * @returns true if nonce was consumed by this call
+ */
+export async function consumeNonce(nonce: string): Promise<boolean> {
+  return getNonceStore().consume(nonce);
+}
+
+/**
+ * Create the signed cookie value for a nonce
+ * @param nonce - The nonce issued to this browser
+ */
+export function signNonceCookie(nonce: string): string {
+  return sign(`${nonce}:${Date.now()}`);
+}
+
+/**
+ * Read the nonce bound to this browser
+ * @param value - The raw cookie value
+ * @returns the nonce and when it was issued, or null if the cookie is missing or tampered with
+ */
+export function readNonceCookie(value: string | undefined): NonceCookie | null {
+  const payload = value ? unsign(value) : null;
+  const [nonce, issuedAt] = payload?.split(':') ?? [];
+  return nonce && issuedAt ? { nonce, issuedAt: Number(issuedAt) } : null;
+}
+
+/**
+ * Whether a nonce issued at this time has outlived its TTL
+ */
+export function isNonceExpired(cookie: NonceCookie): boolean {
+  return Date.now() - cookie.issuedAt >= NONCE_TTL_MS;
+}
+
+/**
+ * Number of issued nonces not yet consumed or expired, all or one client's
  */
-export function consumeNonce(nonce: string): boolean {
-  const deleted = nonces.delete(nonce);
-  console.log('[Auth] Nonce consumed:', { nonce, deleted, remaining: nonces.size });
-  return deleted;
+export async function countOutstandingNonces(client?: string): Promise<number> {
+  return getNonceStore().count(client);
 }
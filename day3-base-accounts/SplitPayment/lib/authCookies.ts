@@ -0,0 +1,33 @@
+/**
+ * Auth Cookie Names and CSRF Browser Helper
+ *
+ * Free of server-only imports so middleware and client code can load it
+ *
+ * CSRF uses the double-submit pattern: sign-in sets a readable csrf cookie, and mutating
+ * requests echo it back in a header. A cross-site page can send our cookies
+ * but can't read them, so it can't produce the header.
+ *
+ * Requests made on behalf of a wallet also name it in the sender header, so the
+ * server can refuse them when the wallet has switched away from the signed-in account.
+ */
+
+export const SESSION_COOKIE = 'siwe_session';
+export const REFRESH_COOKIE = 'siwe_refresh';
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+export const SENDER_HEADER = 'x-sender-address';
+
+/**
+ * Headers to attach to mutating API requests (browser only)
+ */
+export function csrfHeaders(): Record<string, string> {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]*)`));
+  return match ? { [CSRF_HEADER]: decodeURIComponent(match[1]) } : {};
+}
+
+/**
+ * Headers naming the connected wallet as the sender of a request
+ */
+export function senderHeaders(sender: string | undefined): Record<string, string> {
+  return sender ? { [SENDER_HEADER]: sender } : {};
+}
@@ -15,7 +15,7 @@ export function getSDK() {
     sdkInstance = createBaseAccountSDK({
       appName: "Split Payment Demo",
       appLogoUrl: "https://base.org/favicon.ico",
-      appChainIds: [base.constants.CHAIN_IDS.baseSepolia],
+      appChainIds: [base.constants.CHAIN_IDS.baseSepolia, base.constants.CHAIN_IDS.base],
     });
     console.log('[SDK] Base Account SDK initialized');
   }
@@ -0,0 +1,81 @@
+import { createPublicClient, http, type Chain, type PublicClient } from 'viem';
+import { base, baseSepolia, anvil } from 'viem/chains';
+
+/**
+ * Sign-in Chains
+ *
+ * Chains a SIWE message may name, and the viem client used to verify its signature
+ * (smart wallet signatures are checked against the chain they were made on)
+ * The same clients serve other reads, such as sign-in claims (lib/claims.ts)
+ *
+ * Configuration:
+ * - SIWE_ALLOWED_CHAIN_IDS: comma separated allowlist
+ *   (default: Base and Base Sepolia, plus local anvil 31337 outside production)
+ * - RPC_URL_<chainId>: RPC endpoint override per chain, e.g. RPC_URL_8453
+ */
+
+export const supportedChains: Record<number, Chain> = {
+  [base.id]: base,
+  [baseSepolia.id]: baseSepolia,
+  [anvil.id]: anvil,
+};
+
+const DEFAULT_ALLOWED_CHAIN_IDS: number[] =
+  process.env.NODE_ENV === 'production' ? [base.id, baseSepolia.id] : [base.id, baseSepolia.id, anvil.id];
+
+/**
+ * Chain IDs accepted for sign-in
+ * Only chains in supportedChains can be allowed, since they need a client
+ */
+export function getAllowedChainIds(): number[] {
+  const configured = process.env.SIWE_ALLOWED_CHAIN_IDS;
+  if (!configured) {
+    return DEFAULT_ALLOWED_CHAIN_IDS;
+  }
+  return configured
+    .split(',')
+    .map((id) => Number(id.trim()))
+    .filter((id) => id in supportedChains);
+}
+
+// Global clients using globalThis to persist across module reloads
+const globalForClients = globalThis as unknown as {
+  publicClients: Map<number, PublicClient> | undefined;
+};
+
+/**
+ * Public client for an allowed chain
+ * @returns the client, or null if the chain is not allowed
+ */
+export function getPublicClient(chainId: number): PublicClient | null {
+  return getAllowedChainIds().includes(chainId) ? getChainClient(chainId) : null;
+}
+
+/**
+ * Public client for any supported chain, for reads that aren't sign-in
+ * @returns the client, or null if the chain is not supported
+ */
+export function getChainClient(chainId: number): PublicClient | null {
+  if (!(chainId in supportedChains)) {
+    return null;
+  }
+
+  globalForClients.publicClients ??= new Map();
+  let client = globalForClients.publicClients.get(chainId);
+  if (!client) {
+    client = createPublicClient({
+      chain: supportedChains[chainId],
+      transport: http(process.env[`RPC_URL_${chainId}`]),
+    }) as PublicClient;
+    globalForClients.publicClients.set(chainId, client);
+  }
+  return client;
+}
+
+/**
+ * Replace the client for a chain, e.g. with a local node or a test double
+ */
+export function setChainClient(chainId: number, client: PublicClient) {
+  globalForClients.publicClients ??= new Map();
+  globalForClients.publicClients.set(chainId, client);
+}
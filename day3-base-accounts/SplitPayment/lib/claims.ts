@@ -0,0 +1,193 @@
+import { erc20Abi, erc721Abi, zeroHash, type Address, type Hex } from 'viem';
+import { getChainClient } from './chains';
+import { claimRules } from '@/claims.config';
+
+/**
+ * Sign-in Claims
+ *
+ * Onchain facts about a user, checked when they sign in and stored on the session
+ * so features can be gated without another chain read (rules: claims.config.ts)
+ *
+ * Evaluation:
+ * - A claim holds if any of the user's linked addresses meets its rule
+ * - Results are cached per rule and address, so signing in again (or from another
+ *   device) doesn't repeat the reads
+ * - A read that fails or times out counts as not met and isn't cached; sign-in
+ *   never fails because a chain is unreachable
+ *
+ * Configuration:
+ * - CLAIM_CACHE_TTL_MS: how long a read result is reused (default: 5 minutes)
+ * - CLAIM_READ_TIMEOUT_MS: per-read timeout (default: 3 seconds)
+ */
+
+export type ClaimRule = { claim: string; chainId: number } & (
+  | { type: 'erc20Balance'; token: Address; /** Raw token units, as a decimal string */ minBalance: string }
+  | { type: 'erc721Owner'; contract: Address; minCount?: number }
+  | {
+      type: 'attestation';
+      schemaId: Hex;
+      /** Coinbase Verifications indexer (default: the one on Base) */
+      indexer?: Address;
+      /** EAS contract (default: the OP Stack predeploy) */
+      eas?: Address;
+    }
+);
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_READ_TIMEOUT_MS = 3000;
+
+const COINBASE_INDEXER_ADDRESS: Address = '0x2c7eE1E5f416dfF40054c27A62f7B357C4E8619C';
+const EAS_ADDRESS: Address = '0x4200000000000000000000000000000000000021';
+
+const indexerAbi = [
+  {
+    type: 'function',
+    name: 'getAttestationUid',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'recipient', type: 'address' },
+      { name: 'schemaUid', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'bytes32' }],
+  },
+] as const;
+
+const easAbi = [
+  {
+    type: 'function',
+    name: 'getAttestation',
+    stateMutability: 'view',
+    inputs: [{ name: 'uid', type: 'bytes32' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'uid', type: 'bytes32' },
+          { name: 'schema', type: 'bytes32' },
+          { name: 'time', type: 'uint64' },
+          { name: 'expirationTime', type: 'uint64' },
+          { name: 'revocationTime', type: 'uint64' },
+          { name: 'refUID', type: 'bytes32' },
+          { name: 'recipient', type: 'address' },
+          { name: 'attester', type: 'address' },
+          { name: 'revocable', type: 'bool' },
+          { name: 'data', type: 'bytes' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+function envMs(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Global cache using globalThis to persist across module reloads
+const globalForClaims = globalThis as unknown as {
+  claimCache: Map<string, { met: boolean; expiresAt: number }> | undefined;
+};
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Read timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Read whether one address meets a rule (uncached)
+ */
+async function readRule(rule: ClaimRule, address: Address): Promise<boolean> {
+  const client = getChainClient(rule.chainId);
+  if (!client) {
+    throw new Error(`Unsupported chain ${rule.chainId}`);
+  }
+
+  switch (rule.type) {
+    case 'erc20Balance': {
+      const balance = await client.readContract({
+        address: rule.token,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [address],
+      });
+      return balance >= BigInt(rule.minBalance);
+    }
+    case 'erc721Owner': {
+      const count = await client.readContract({
+        address: rule.contract,
+        abi: erc721Abi,
+        functionName: 'balanceOf',
+        args: [address],
+      });
+      return count >= BigInt(rule.minCount ?? 1);
+    }
+    case 'attestation': {
+      const uid = await client.readContract({
+        address: rule.indexer ?? COINBASE_INDEXER_ADDRESS,
+        abi: indexerAbi,
+        functionName: 'getAttestationUid',
+        args: [address, rule.schemaId],
+      });
+      if (uid === zeroHash) {
+        return false;
+      }
+      const attestation = await client.readContract({
+        address: rule.eas ?? EAS_ADDRESS,
+        abi: easAbi,
+        functionName: 'getAttestation',
+        args: [uid],
+      });
+      const now = BigInt(Math.floor(Date.now() / 1000));
+      return (
+        attestation.revocationTime === BigInt(0) &&
+        (attestation.expirationTime === BigInt(0) || attestation.expirationTime > now)
+      );
+    }
+  }
+}
+
+/**
+ * Whether one address meets a rule, from the cache when fresh
+ */
+async function meetsRule(rule: ClaimRule, address: Address): Promise<boolean> {
+  globalForClaims.claimCache ??= new Map();
+  const cache = globalForClaims.claimCache;
+  const key = `${JSON.stringify(rule)}:${address}`;
+  const now = Date.now();
+
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.met;
+  }
+
+  try {
+    const met = await withTimeout(
+      readRule(rule, address),
+      envMs(process.env.CLAIM_READ_TIMEOUT_MS, DEFAULT_READ_TIMEOUT_MS)
+    );
+    cache.set(key, { met, expiresAt: now + envMs(process.env.CLAIM_CACHE_TTL_MS, DEFAULT_CACHE_TTL_MS) });
+    return met;
+  } catch (error) {
+    console.warn(`[Claims] Could not check ${rule.claim} for ${address}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Claims a user holds: every configured claim met by at least one of their addresses
+ * @param addresses - The user's linked addresses
+ * @param rules - Rules to check (default: claims.config.ts)
+ */
+export async function evaluateClaims(addresses: string[], rules: ClaimRule[] = claimRules): Promise<string[]> {
+  const results = await Promise.all(
+    rules.map(async (rule) => {
+      const met = await Promise.all(addresses.map((address) => meetsRule(rule, address as Address)));
+      return met.some(Boolean) ? rule.claim : null;
+    })
+  );
+  return Array.from(new Set(results.filter((claim): claim is string => claim !== null)));
+}
@@ -0,0 +1,98 @@
+/**
+ * CSV
+ *
+ * Minimal RFC 4180 reading and writing for recipient lists and split reports
+ *
+ * - Fields may be quoted; quotes inside are doubled ("")
+ * - Rows end with \n or \r\n; blank lines are skipped
+ * - Written cells that a spreadsheet would run as a formula (=, +, -, @, tab,
+ *   carriage return) are prefixed with ' so an exported file can't execute anything
+ */
+
+/**
+ * Parse CSV text
+ * @returns rows of cells, with the 1-based line each row starts on
+ * @throws Error on an unterminated quoted field
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  // Drop a byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  endRow();
+  return rows;
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function formatCell(value: string | number | bigint | null | undefined): string {
+  let cell = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_START.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Format rows as CSV text (\r\n line endings, as RFC 4180 asks)
+ */
+export function toCsv(rows: (string | number | bigint | null | undefined)[][]): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Save CSV text as a file (browser only)
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
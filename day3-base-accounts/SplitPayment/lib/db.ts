@@ -0,0 +1,69 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Shared SQLite Database
+ *
+ * Single file-backed database used by the server-side stores
+ * Uses global singleton pattern so hot reloads reuse the same connection
+ *
+ * Configuration:
+ * - SQLITE_PATH: database file (default: .data/splitpayment.db)
+ */
+
+const globalForDb = globalThis as unknown as {
+  db: Database.Database | undefined;
+};
+
+export function getDb(): Database.Database {
+  if (!globalForDb.db) {
+    const file = process.env.SQLITE_PATH || path.join(process.cwd(), '.data', 'splitpayment.db');
+
+    if (file !== ':memory:') {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    globalForDb.db = db;
+  }
+  return globalForDb.db;
+}
+
+/**
+ * Replace the database, e.g. with an in-memory one
+ */
+export function setDb(db: Database.Database) {
+  globalForDb.db = db;
+}
+
+/**
+ * Add a column to an existing table if it is missing
+ * CREATE TABLE IF NOT EXISTS leaves older tables untouched, so new columns go through here
+ */
+export function ensureColumn(table: string, column: string, definition: string) {
+  if (!hasColumn(table, column)) {
+    getDb().exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Check whether an existing table has a column (false if the table doesn't exist)
+ */
+export function hasColumn(table: string, column: string): boolean {
+  const columns = getDb().prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((existing) => existing.name === column);
+}
+
+export type AuthStoreKind = 'memory' | 'sqlite' | 'redis';
+
+/**
+ * Backing store chosen with AUTH_STORE=memory | sqlite | redis (default: memory)
+ * Under redis, stores with a Redis adapter (nonces, rate limits) use REDIS_URL
+ * and the others use SQLite
+ */
+export function getAuthStoreKind(): AuthStoreKind {
+  const kind = process.env.AUTH_STORE;
+  return kind === 'sqlite' || kind === 'redis' ? kind : 'memory';
+}
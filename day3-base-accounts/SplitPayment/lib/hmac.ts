@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+
+/**
+ * HMAC Signing Utilities
+ *
+ * Signs values placed in cookies so the server can trust them when they come back
+ *
+ * Configuration:
+ * - AUTH_SECRET: signing key (required in production, random per process in development)
+ */
+
+const globalForSecret = globalThis as unknown as {
+  authSecret: string | undefined;
+};
+
+export function getAuthSecret(): string {
+  if (process.env.AUTH_SECRET) {
+    return process.env.AUTH_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  globalForSecret.authSecret ??= crypto.randomBytes(32).toString('hex');
+  return globalForSecret.authSecret;
+}
+
+/**
+ * HMAC-SHA256 of a value with the auth secret (base64url)
+ */
+export function hmac(value: string): string {
+  return crypto.createHmac('sha256', getAuthSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Sign a value
+ * @returns "<value>.<signature>"
+ */
+export function sign(value: string): string {
+  return `${value}.${hmac(value)}`;
+}
+
+/**
+ * Check a signed value
+ * @returns the original value, or null if the signature doesn't match
+ */
+export function unsign(signed: string): string | null {
+  const index = signed.lastIndexOf('.');
+  if (index <= 0) {
+    return null;
+  }
+  const value = signed.slice(0, index);
+  return safeEqual(hmac(value), signed.slice(index + 1)) ? value : null;
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
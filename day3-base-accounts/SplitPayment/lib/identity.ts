@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import { getAddress } from 'viem';
+import { getDb, getAuthStoreKind } from './db';
+
+/**
+ * User Identities
+ *
+ * One user record per person, whichever way they sign in
+ *
+ * Identities:
+ * - Wallet addresses, proven with a SIWE signature (any number per user)
+ * - A Farcaster ID, proven with a Quick Auth token (at most one per user)
+ *
+ * Signing in with an identity nobody owns creates a user for it. Linking proves
+ * a second identity while signed in with the first; if that identity already
+ * belongs to another user the two users are merged, unless both have a
+ * (different) FID.
+ *
+ * Configuration:
+ * - AUTH_STORE=memory | sqlite (redis also means sqlite here, see lib/db.ts)
+ */
+
+export interface User {
+  id: string;
+  fid: number | null;
+  /** Checksummed, in the order they were linked */
+  addresses: string[];
+  createdAt: number;
+}
+
+export type Identity = { type: 'address'; address: string } | { type: 'fid'; fid: number };
+
+export interface IdentityStore {
+  get(id: string): Promise<User | null>;
+  findByAddress(address: string): Promise<User | null>;
+  findByFid(fid: number): Promise<User | null>;
+  create(user: User): Promise<void>;
+  /** Attach an address; false if another user owns it */
+  addAddress(userId: string, address: string): Promise<boolean>;
+  /** Set the FID; false if another user owns it */
+  setFid(userId: string, fid: number): Promise<boolean>;
+  /** Move every identity of one user onto another and delete the first */
+  merge(fromId: string, intoId: string): Promise<void>;
+}
+
+/**
+ * In-memory store
+ */
+export function createMemoryIdentityStore(): IdentityStore {
+  const users = new Map<string, User>();
+  const byAddress = new Map<string, string>();
+  const byFid = new Map<number, string>();
+
+  const copy = (user: User | undefined) => (user ? { ...user, addresses: [...user.addresses] } : null);
+
+  return {
+    async get(id) {
+      return copy(users.get(id));
+    },
+    async findByAddress(address) {
+      const id = byAddress.get(address);
+      return copy(id ? users.get(id) : undefined);
+    },
+    async findByFid(fid) {
+      const id = byFid.get(fid);
+      return copy(id ? users.get(id) : undefined);
+    },
+    async create(user) {
+      users.set(user.id, copy(user)!);
+      user.addresses.forEach((address) => byAddress.set(address, user.id));
+      if (user.fid !== null) {
+        byFid.set(user.fid, user.id);
+      }
+    },
+    async addAddress(userId, address) {
+      const user = users.get(userId);
+      const owner = byAddress.get(address);
+      if (!user || (owner && owner !== userId)) {
+        return false;
+      }
+      if (!owner) {
+        user.addresses.push(address);
+        byAddress.set(address, userId);
+      }
+      return true;
+    },
+    async setFid(userId, fid) {
+      const user = users.get(userId);
+      const owner = byFid.get(fid);
+      if (!user || (owner && owner !== userId)) {
+        return false;
+      }
+      if (user.fid !== null) {
+        byFid.delete(user.fid);
+      }
+      user.fid = fid;
+      byFid.set(fid, userId);
+      return true;
+    },
+    async merge(fromId, intoId) {
+      const from = users.get(fromId);
+      const into = users.get(intoId);
+      if (!from || !into) {
+        return;
+      }
+      for (const address of from.addresses) {
+        into.addresses.push(address);
+        byAddress.set(address, intoId);
+      }
+      if (from.fid !== null && into.fid === null) {
+        into.fid = from.fid;
+        byFid.set(from.fid, intoId);
+      }
+      users.delete(fromId);
+    },
+  };
+}
+
+interface UserRow {
+  id: string;
+  fid: number | null;
+  created_at: number;
+}
+
+/**
+ * SQLite store
+ */
+export function createSqliteIdentityStore(): IdentityStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      fid INTEGER UNIQUE,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS user_addresses (
+      address TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      linked_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS user_addresses_user ON user_addresses (user_id);
+  `);
+
+  const selectUser = db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?');
+  const selectByFid = db.prepare<[number], UserRow>('SELECT * FROM users WHERE fid = ?');
+  const selectOwner = db.prepare<[string], { user_id: string }>(
+    'SELECT user_id FROM user_addresses WHERE address = ?'
+  );
+  const selectAddresses = db.prepare<[string], { address: string }>(
+    'SELECT address FROM user_addresses WHERE user_id = ? ORDER BY linked_at, rowid'
+  );
+  const insertUser = db.prepare('INSERT INTO users (id, fid, created_at) VALUES (?, ?, ?)');
+  const insertAddress = db.prepare(
+    'INSERT OR IGNORE INTO user_addresses (address, user_id, linked_at) VALUES (?, ?, ?)'
+  );
+  const updateFid = db.prepare('UPDATE users SET fid = ? WHERE id = ?');
+  const moveAddresses = db.prepare('UPDATE user_addresses SET user_id = ? WHERE user_id = ?');
+  const removeUser = db.prepare('DELETE FROM users WHERE id = ?');
+
+  const toUser = (row: UserRow | undefined): User | null =>
+    row
+      ? {
+          id: row.id,
+          fid: row.fid,
+          addresses: selectAddresses.all(row.id).map(({ address }) => address),
+          createdAt: row.created_at,
+        }
+      : null;
+
+  const create = db.transaction((user: User) => {
+    insertUser.run(user.id, user.fid, user.createdAt);
+    user.addresses.forEach((address) => insertAddress.run(address, user.id, user.createdAt));
+  });
+
+  const addAddress = db.transaction((userId: string, address: string) => {
+    if (!selectUser.get(userId)) {
+      return false;
+    }
+    insertAddress.run(address, userId, Date.now());
+    return selectOwner.get(address)?.user_id === userId;
+  });
+
+  const setFid = db.transaction((userId: string, fid: number) => {
+    const owner = selectByFid.get(fid);
+    if (!selectUser.get(userId) || (owner && owner.id !== userId)) {
+      return false;
+    }
+    updateFid.run(fid, userId);
+    return true;
+  });
+
+  // The old row goes first so its FID is free under the UNIQUE constraint
+  const merge = db.transaction((fromId: string, intoId: string) => {
+    const from = selectUser.get(fromId);
+    const into = selectUser.get(intoId);
+    if (!from || !into) {
+      return;
+    }
+    moveAddresses.run(intoId, fromId);
+    removeUser.run(fromId);
+    if (from.fid !== null && into.fid === null) {
+      updateFid.run(from.fid, intoId);
+    }
+  });
+
+  return {
+    async get(id) {
+      return toUser(selectUser.get(id));
+    },
+    async findByAddress(address) {
+      const owner = selectOwner.get(address);
+      return owner ? toUser(selectUser.get(owner.user_id)) : null;
+    },
+    async findByFid(fid) {
+      return toUser(selectByFid.get(fid));
+    },
+    async create(user) {
+      create(user);
+    },
+    async addAddress(userId, address) {
+      return addAddress(userId, address);
+    },
+    async setFid(userId, fid) {
+      return setFid(userId, fid);
+    },
+    async merge(fromId, intoId) {
+      merge(fromId, intoId);
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForIdentities = globalThis as unknown as {
+  identityStore: IdentityStore | undefined;
+};
+
+/**
+ * Get the configured identity store (created on first use from AUTH_STORE)
+ */
+export function getIdentityStore(): IdentityStore {
+  if (!globalForIdentities.identityStore) {
+    globalForIdentities.identityStore =
+      getAuthStoreKind() !== 'memory' ? createSqliteIdentityStore() : createMemoryIdentityStore();
+  }
+  return globalForIdentities.identityStore;
+}
+
+/**
+ * Replace the identity store
+ */
+export function setIdentityStore(store: IdentityStore) {
+  globalForIdentities.identityStore = store;
+}
+
+function findOwner(identity: Identity): Promise<User | null> {
+  const store = getIdentityStore();
+  return identity.type === 'address'
+    ? store.findByAddress(getAddress(identity.address))
+    : store.findByFid(identity.fid);
+}
+
+/**
+ * Get a user by id
+ */
+export function getUser(id: string): Promise<User | null> {
+  return getIdentityStore().get(id);
+}
+
+/**
+ * The user an identity belongs to, created on first sign-in
+ */
+export async function resolveUser(identity: Identity): Promise<User> {
+  const existing = await findOwner(identity);
+  if (existing) {
+    return existing;
+  }
+
+  const user: User = {
+    id: crypto.randomBytes(12).toString('hex'),
+    fid: identity.type === 'fid' ? identity.fid : null,
+    addresses: identity.type === 'address' ? [getAddress(identity.address)] : [],
+    createdAt: Date.now(),
+  };
+  await getIdentityStore().create(user);
+  return user;
+}
+
+export type LinkResult =
+  | { ok: true; user: User; /** User that was merged in and no longer exists */ mergedUserId?: string }
+  | { ok: false; code: 'USER_NOT_FOUND' | 'IDENTITY_CONFLICT' };
+
+/**
+ * Link a freshly proven identity to a signed-in user
+ * An identity owned by another user merges that user in, unless both have different FIDs
+ */
+export async function linkIdentity(userId: string, identity: Identity): Promise<LinkResult> {
+  const store = getIdentityStore();
+  const user = await store.get(userId);
+  if (!user) {
+    return { ok: false, code: 'USER_NOT_FOUND' };
+  }
+
+  const owner = await findOwner(identity);
+  if (owner?.id === userId) {
+    return { ok: true, user };
+  }
+
+  if (owner) {
+    if (owner.fid !== null && user.fid !== null && owner.fid !== user.fid) {
+      return { ok: false, code: 'IDENTITY_CONFLICT' };
+    }
+    await store.merge(owner.id, userId);
+    return { ok: true, user: (await store.get(userId))!, mergedUserId: owner.id };
+  }
+
+  const linked =
+    identity.type === 'address'
+      ? await store.addAddress(userId, getAddress(identity.address))
+      : user.fid === null && (await store.setFid(userId, identity.fid));
+  if (!linked) {
+    return { ok: false, code: 'IDENTITY_CONFLICT' };
+  }
+  return { ok: true, user: (await store.get(userId))! };
+}
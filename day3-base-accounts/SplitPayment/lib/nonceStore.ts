@@ -0,0 +1,225 @@
+import { getDb, ensureColumn, getAuthStoreKind } from './db';
+import { getRedisClient } from './redis';
+
+/**
+ * Nonce Store
+ *
+ * Pluggable storage for SIWE nonces with TTL and atomic check-and-consume
+ *
+ * Adapters:
+ * - memory: process-local Map (default, lost on restart)
+ * - sqlite: file-backed, survives restarts and is shared by processes on one host
+ * - redis: any Redis-compatible client, shared across server instances
+ *
+ * Configuration:
+ * - AUTH_STORE=memory | sqlite | redis
+ * - REDIS_URL: Redis server for AUTH_STORE=redis (lib/redis.ts)
+ * - Any other client can be wired in code with setNonceStore(createRedisNonceStore(client))
+ */
+
+export interface NonceStore {
+  /** Store a nonce that expires after ttlMs, issued to client (e.g. its IP) */
+  add(nonce: string, ttlMs: number, client?: string): Promise<void>;
+  /** Check a nonce is stored and unexpired (does not consume it) */
+  has(nonce: string): Promise<boolean>;
+  /** Atomically remove a nonce; true only for the single caller that consumed it */
+  consume(nonce: string): Promise<boolean>;
+  /** Number of outstanding (unexpired, unconsumed) nonces, all or one client's */
+  count(client?: string): Promise<number>;
+}
+
+/**
+ * In-memory adapter
+ * Expiry is checked lazily on access instead of one timer per nonce
+ */
+export function createMemoryNonceStore(): NonceStore {
+  const nonces = new Map<string, { expiresAt: number; client?: string }>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [nonce, { expiresAt }] of nonces) {
+      if (expiresAt <= now) {
+        nonces.delete(nonce);
+      }
+    }
+  };
+
+  return {
+    async add(nonce, ttlMs, client) {
+      prune();
+      nonces.set(nonce, { expiresAt: Date.now() + ttlMs, client });
+    },
+    async has(nonce) {
+      const entry = nonces.get(nonce);
+      return entry !== undefined && entry.expiresAt > Date.now();
+    },
+    async consume(nonce) {
+      const entry = nonces.get(nonce);
+      nonces.delete(nonce);
+      return entry !== undefined && entry.expiresAt > Date.now();
+    },
+    async count(client) {
+      prune();
+      if (client === undefined) {
+        return nonces.size;
+      }
+      return [...nonces.values()].filter((entry) => entry.client === client).length;
+    },
+  };
+}
+
+/**
+ * SQLite adapter
+ * A single DELETE ... WHERE expires_at > now makes consume atomic
+ */
+export function createSqliteNonceStore(table = 'nonces'): NonceStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      nonce TEXT PRIMARY KEY,
+      expires_at INTEGER NOT NULL
+    )
+  `);
+  ensureColumn(table, 'client', 'TEXT');
+  db.exec(`CREATE INDEX IF NOT EXISTS ${table}_client ON ${table} (client, expires_at)`);
+
+  const insert = db.prepare(`INSERT OR REPLACE INTO ${table} (nonce, expires_at, client) VALUES (?, ?, ?)`);
+  const select = db.prepare(`SELECT 1 FROM ${table} WHERE nonce = ? AND expires_at > ?`);
+  const remove = db.prepare(`DELETE FROM ${table} WHERE nonce = ? AND expires_at > ?`);
+  const prune = db.prepare(`DELETE FROM ${table} WHERE expires_at <= ?`);
+  const count = db.prepare<[number], { total: number }>(
+    `SELECT COUNT(*) AS total FROM ${table} WHERE expires_at > ?`
+  );
+  const countClient = db.prepare<[string, number], { total: number }>(
+    `SELECT COUNT(*) AS total FROM ${table} WHERE client = ? AND expires_at > ?`
+  );
+
+  return {
+    async add(nonce, ttlMs, client) {
+      const now = Date.now();
+      prune.run(now);
+      insert.run(nonce, now + ttlMs, client ?? null);
+    },
+    async has(nonce) {
+      return select.get(nonce, Date.now()) !== undefined;
+    },
+    async consume(nonce) {
+      return remove.run(nonce, Date.now()).changes === 1;
+    },
+    async count(client) {
+      if (client !== undefined) {
+        return countClient.get(client, Date.now())!.total;
+      }
+      return count.get(Date.now())!.total;
+    },
+  };
+}
+
+/**
+ * Minimal Redis command surface used by the Redis adapters
+ * Matches ioredis, so a local stand-in only needs these commands
+ */
+export interface RedisLike {
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  exists(key: string): Promise<number>;
+  del(key: string): Promise<number>;
+  zadd(key: string, score: number, member: string): Promise<unknown>;
+  zrem(key: string, member: string): Promise<number>;
+  zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number>;
+  zcard(key: string): Promise<number>;
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+/**
+ * Redis adapter
+ * Redis expires keys itself; DEL returns 1 only for the caller that removed the key
+ * Sorted sets scored by expiry track the outstanding count, overall and per
+ * client; the nonce key holds the client so consume can drop it from its set
+ */
+export function createRedisNonceStore(client: RedisLike, prefix = 'siwe:nonce:'): NonceStore {
+  const index = `${prefix}index`;
+  const clientIndex = (issuedTo: string) => `${prefix}client:${issuedTo}`;
+
+  return {
+    async add(nonce, ttlMs, issuedTo) {
+      const expiresAt = Date.now() + ttlMs;
+      await client.set(prefix + nonce, issuedTo ?? '', 'PX', ttlMs);
+      await client.zadd(index, expiresAt, nonce);
+      if (issuedTo !== undefined) {
+        await client.zadd(clientIndex(issuedTo), expiresAt, nonce);
+      }
+    },
+    async has(nonce) {
+      return (await client.exists(prefix + nonce)) === 1;
+    },
+    async consume(nonce) {
+      const issuedTo = await client.get(prefix + nonce);
+      const consumed = (await client.del(prefix + nonce)) === 1;
+      await client.zrem(index, nonce);
+      if (issuedTo) {
+        await client.zrem(clientIndex(issuedTo), nonce);
+      }
+      return consumed;
+    },
+    async count(issuedTo) {
+      const key = issuedTo === undefined ? index : clientIndex(issuedTo);
+      await client.zremrangebyscore(key, '-inf', Date.now());
+      return client.zcard(key);
+    },
+  };
+}
+
+// Global stores using globalThis to persist across module reloads
+const globalForNonceStore = globalThis as unknown as {
+  nonceStore: NonceStore | undefined;
+  challengeStore: NonceStore | undefined;
+};
+
+/**
+ * Get the configured nonce store (created on first use from AUTH_STORE)
+ */
+export function getNonceStore(): NonceStore {
+  if (!globalForNonceStore.nonceStore) {
+    const kind = getAuthStoreKind();
+    globalForNonceStore.nonceStore =
+      kind === 'redis'
+        ? createRedisNonceStore(getRedisClient())
+        : kind === 'sqlite'
+          ? createSqliteNonceStore()
+          : createMemoryNonceStore();
+  }
+  return globalForNonceStore.nonceStore;
+}
+
+/**
+ * Replace the nonce store, e.g. with a Redis adapter
+ */
+export function setNonceStore(store: NonceStore) {
+  globalForNonceStore.nonceStore = store;
+}
+
+/**
+ * Get the store for passkey challenges (lib/passkeys.ts)
+ * Same adapter as nonces but its own table or key prefix, so challenges never
+ * count toward the SIWE nonce caps
+ */
+export function getChallengeStore(): NonceStore {
+  if (!globalForNonceStore.challengeStore) {
+    const kind = getAuthStoreKind();
+    globalForNonceStore.challengeStore =
+      kind === 'redis'
+        ? createRedisNonceStore(getRedisClient(), 'passkey:challenge:')
+        : kind === 'sqlite'
+          ? createSqliteNonceStore('passkey_challenges')
+          : createMemoryNonceStore();
+  }
+  return globalForNonceStore.challengeStore;
+}
+
+/**
+ * Replace the passkey challenge store
+ */
+export function setChallengeStore(store: NonceStore) {
+  globalForNonceStore.challengeStore = store;
+}
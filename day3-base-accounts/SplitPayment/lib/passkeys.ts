@@ -0,0 +1,274 @@
+import type { AuthenticatorTransportFuture } from '@simplewebauthn/server';
+import { getDb, getAuthStoreKind } from './db';
+import { getChallengeStore } from './nonceStore';
+import { getRequestOrigin } from './proxy';
+import { checkRateLimit, rateLimits } from './rateLimit';
+
+/**
+ * Passkey Step-up
+ *
+ * WebAuthn passkeys registered to a wallet address, used to confirm sensitive
+ * actions (large splits, changing saved recipients, exporting collected data)
+ * on top of the SIWE session
+ *
+ * Flow:
+ * - Register: a signed-in user adds a passkey for the address their session
+ *   signed in with (/api/auth/passkey/register)
+ * - Step up: the passkey signs a fresh challenge (/api/auth/passkey/step-up);
+ *   the session is then stepped up for STEP_UP_WINDOW_MS, during which no further
+ *   prompt is needed. Registering doesn't count as a step-up.
+ * - Routes that need it call requireStepUp() (lib/requireSession.ts)
+ *
+ * Enforced by the server (requireStepUp):
+ * - Changing what a saved split group pays out, or deleting it (/api/splits/groups)
+ * - Reading the audit log, the data collected about users (/api/admin/audit)
+ * - Adding a second passkey
+ * Confirmed in the browser only (usePasskey.ensureStepUp):
+ * - Large splits: the wallet sends the transaction itself, so the server never
+ *   sees it and can't refuse it
+ * - Exporting completed splits to CSV, which the page builds from its own state
+ *
+ * Challenges are single-use entries in their own nonce store (apart from SIWE
+ * nonces, see getChallengeStore), bound to the session that requested them and
+ * issued at most RATE_LIMIT_PASSKEY_CHALLENGE per session. Farcaster sessions have no address and can't step up.
+ * The first passkey for an address needs a fresh SIWE signature from its wallet,
+ * and adding another one needs a step-up first, so a stolen session can't enrol
+ * its own authenticator.
+ *
+ * Configuration:
+ * - AUTH_STORE=memory | sqlite (redis also means sqlite here, see lib/db.ts)
+ * - STEP_UP_WINDOW_MS: how long a step-up lasts (default: 5 minutes)
+ */
+
+export const STEP_UP_WINDOW_MS = Number(process.env.STEP_UP_WINDOW_MS) || 5 * 60 * 1000;
+
+// Time the user has to answer the passkey prompt
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface PasskeyCredential {
+  /** Credential ID (base64url) */
+  id: string;
+  userId: string;
+  /** Checksummed wallet address the passkey confirms actions for */
+  address: string;
+  /** COSE public key (base64url) */
+  publicKey: string;
+  counter: number;
+  transports: AuthenticatorTransportFuture[];
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+export interface PasskeyStore {
+  add(credential: PasskeyCredential): Promise<void>;
+  get(id: string): Promise<PasskeyCredential | null>;
+  listByAddress(address: string): Promise<PasskeyCredential[]>;
+  /** Record a use and the authenticator's new signature counter */
+  markUsed(id: string, counter: number, usedAt: number): Promise<void>;
+  setStepUp(sessionId: string, at: number): Promise<void>;
+  getStepUp(sessionId: string): Promise<number | null>;
+}
+
+/**
+ * In-memory store
+ */
+export function createMemoryPasskeyStore(): PasskeyStore {
+  const credentials = new Map<string, PasskeyCredential>();
+  const stepUps = new Map<string, number>();
+
+  return {
+    async add(credential) {
+      credentials.set(credential.id, { ...credential, transports: [...credential.transports] });
+    },
+    async get(id) {
+      const credential = credentials.get(id);
+      return credential ? { ...credential } : null;
+    },
+    async listByAddress(address) {
+      return Array.from(credentials.values())
+        .filter((credential) => credential.address === address)
+        .map((credential) => ({ ...credential }));
+    },
+    async markUsed(id, counter, usedAt) {
+      const credential = credentials.get(id);
+      if (credential) {
+        credential.counter = counter;
+        credential.lastUsedAt = usedAt;
+      }
+    },
+    async setStepUp(sessionId, at) {
+      stepUps.set(sessionId, at);
+    },
+    async getStepUp(sessionId) {
+      return stepUps.get(sessionId) ?? null;
+    },
+  };
+}
+
+interface PasskeyRow {
+  id: string;
+  user_id: string;
+  address: string;
+  public_key: string;
+  counter: number;
+  transports: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+function fromRow(row: PasskeyRow): PasskeyCredential {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    address: row.address,
+    publicKey: row.public_key,
+    counter: row.counter,
+    transports: JSON.parse(row.transports),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/**
+ * SQLite store
+ */
+export function createSqlitePasskeyStore(): PasskeyStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS passkeys (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      address TEXT NOT NULL,
+      public_key TEXT NOT NULL,
+      counter INTEGER NOT NULL,
+      transports TEXT NOT NULL DEFAULT '[]',
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS passkeys_address ON passkeys (address);
+    CREATE TABLE IF NOT EXISTS step_ups (
+      session_id TEXT PRIMARY KEY,
+      verified_at INTEGER NOT NULL
+    );
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO passkeys (id, user_id, address, public_key, counter, transports, created_at, last_used_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const select = db.prepare<[string], PasskeyRow>('SELECT * FROM passkeys WHERE id = ?');
+  const selectByAddress = db.prepare<[string], PasskeyRow>(
+    'SELECT * FROM passkeys WHERE address = ? ORDER BY created_at'
+  );
+  const update = db.prepare('UPDATE passkeys SET counter = ?, last_used_at = ? WHERE id = ?');
+  const upsertStepUp = db.prepare('INSERT OR REPLACE INTO step_ups (session_id, verified_at) VALUES (?, ?)');
+  const selectStepUp = db.prepare<[string], { verified_at: number }>(
+    'SELECT verified_at FROM step_ups WHERE session_id = ?'
+  );
+  const pruneStepUps = db.prepare('DELETE FROM step_ups WHERE verified_at <= ?');
+
+  return {
+    async add(credential) {
+      insert.run(
+        credential.id,
+        credential.userId,
+        credential.address,
+        credential.publicKey,
+        credential.counter,
+        JSON.stringify(credential.transports),
+        credential.createdAt,
+        credential.lastUsedAt
+      );
+    },
+    async get(id) {
+      const row = select.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async listByAddress(address) {
+      return selectByAddress.all(address).map(fromRow);
+    },
+    async markUsed(id, counter, usedAt) {
+      update.run(counter, usedAt, id);
+    },
+    async setStepUp(sessionId, at) {
+      pruneStepUps.run(at - STEP_UP_WINDOW_MS);
+      upsertStepUp.run(sessionId, at);
+    },
+    async getStepUp(sessionId) {
+      return selectStepUp.get(sessionId)?.verified_at ?? null;
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForPasskeys = globalThis as unknown as {
+  passkeyStore: PasskeyStore | undefined;
+};
+
+/**
+ * Get the configured passkey store (created on first use from AUTH_STORE)
+ */
+export function getPasskeyStore(): PasskeyStore {
+  if (!globalForPasskeys.passkeyStore) {
+    globalForPasskeys.passkeyStore =
+      getAuthStoreKind() !== 'memory' ? createSqlitePasskeyStore() : createMemoryPasskeyStore();
+  }
+  return globalForPasskeys.passkeyStore;
+}
+
+/**
+ * Replace the passkey store
+ */
+export function setPasskeyStore(store: PasskeyStore) {
+  globalForPasskeys.passkeyStore = store;
+}
+
+const challengeKey = (sessionId: string, challenge: string) => `${sessionId}:${challenge}`;
+
+/**
+ * Take one of the session's challenge tokens; registration and step-up share them
+ */
+export function checkChallengeRateLimit(sessionId: string) {
+  return checkRateLimit(`passkey:challenge:${sessionId}`, rateLimits.passkeyChallenge);
+}
+
+/**
+ * Remember a challenge issued to a session
+ */
+export async function addChallenge(sessionId: string, challenge: string) {
+  await getChallengeStore().add(challengeKey(sessionId, challenge), CHALLENGE_TTL_MS);
+}
+
+/**
+ * Use up a challenge; true only if it was issued to this session and is unexpired
+ */
+export function consumeChallenge(sessionId: string, challenge: string): Promise<boolean> {
+  return getChallengeStore().consume(challengeKey(sessionId, challenge));
+}
+
+/**
+ * Mark a session as stepped up now
+ */
+export function recordStepUp(sessionId: string) {
+  return getPasskeyStore().setStepUp(sessionId, Date.now());
+}
+
+/**
+ * When a session's step-up lapses
+ * @returns the time, or null if it isn't stepped up
+ */
+export async function getStepUpExpiry(sessionId: string): Promise<number | null> {
+  const at = await getPasskeyStore().getStepUp(sessionId);
+  if (at === null || at + STEP_UP_WINDOW_MS <= Date.now()) {
+    return null;
+  }
+  return at + STEP_UP_WINDOW_MS;
+}
+
+/**
+ * Relying party for a request: the site's origin and its host name as RP ID
+ */
+export function getRelyingParty(request: Request): { origin: string; rpID: string } {
+  const { origin } = getRequestOrigin(request);
+  return { origin, rpID: new URL(origin).hostname };
+}
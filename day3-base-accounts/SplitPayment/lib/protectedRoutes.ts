@@ -0,0 +1,31 @@
+/**
+ * Protected Route Declarations
+ *
+ * Routes listed here are rejected by middleware.ts before the handler runs
+ * when the request has no session cookie. Handlers must still call
+ * requireSession(), which validates the session itself.
+ *
+ * Kept free of server-only imports so the middleware (Edge runtime) can load it
+ */
+
+export interface ProtectedRoute {
+  /** Path prefix, e.g. "/api/payments" also covers "/api/payments/123" */
+  path: string;
+  /** Methods to protect (default: all) */
+  methods?: string[];
+}
+
+export const protectedRoutes: ProtectedRoute[] = [
+  { path: '/api/admin' },
+  { path: '/api/splits' },
+  // { path: '/api/payments' },
+  // { path: '/api/templates', methods: ['POST', 'PUT', 'DELETE'] },
+];
+
+export function isProtectedRoute(pathname: string, method: string): boolean {
+  return protectedRoutes.some(
+    (route) =>
+      (pathname === route.path || pathname.startsWith(`${route.path}/`)) &&
+      (!route.methods || route.methods.includes(method))
+  );
+}
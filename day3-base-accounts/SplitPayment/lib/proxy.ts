@@ -0,0 +1,56 @@
+/**
+ * Request Origin
+ *
+ * Which site a request was made to, for binding signatures to it (SIWE domain
+ * and URI, ReCap resources, Quick Auth domain, WebAuthn origin and RP ID)
+ *
+ * X-Forwarded-* headers are set by whoever sends the request, so they are only
+ * read when the app runs behind reverse proxies that overwrite or append them.
+ * Without APP_URL the Host header is used, which a client talking to the app
+ * directly also controls: set APP_URL in production.
+ *
+ * Configuration:
+ * - APP_URL: public origin of the app, e.g. https://split.example (always wins)
+ * - TRUSTED_PROXY_HOPS: reverse proxies in front of the app (default: 0), also
+ *   used to pick the client IP from X-Forwarded-For (getClientIp in lib/rateLimit.ts),
+ *   which is likewise ignored without it
+ */
+
+export interface RequestOrigin {
+  /** e.g. https://split.example */
+  origin: string;
+  /** Host with port, e.g. split.example or localhost:3000 */
+  host: string;
+}
+
+/**
+ * Number of trusted reverse proxies in front of the app
+ */
+export function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// Value the nearest proxy added to a comma-separated forwarding header
+function forwarded(request: Request, header: string): string | null {
+  const entries = (request.headers.get(header) ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  return entries.length > 0 ? entries[entries.length - 1] : null;
+}
+
+/**
+ * Origin the request was addressed to: APP_URL, else the trusted proxy's
+ * forwarded host and protocol, else the Host header
+ */
+export function getRequestOrigin(request: Request): RequestOrigin {
+  if (process.env.APP_URL) {
+    const { origin, host } = new URL(process.env.APP_URL);
+    return { origin, host };
+  }
+
+  const url = new URL(request.url);
+  const behindProxy = trustedProxyHops() > 0;
+  const host =
+    (behindProxy && forwarded(request, 'x-forwarded-host')) || request.headers.get('host') || url.host;
+  const protocol = (behindProxy && forwarded(request, 'x-forwarded-proto')) || url.protocol.replace(':', '');
+  return { origin: `${protocol}://${host}`, host };
+}
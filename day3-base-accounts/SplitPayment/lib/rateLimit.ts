@@ -0,0 +1,256 @@
+import { NextResponse } from 'next/server';
+import { getDb, getAuthStoreKind } from './db';
+import { getRedisClient } from './redis';
+import type { RedisLike } from './nonceStore';
+import { trustedProxyHops } from './proxy';
+
+/**
+ * Rate Limiting
+ *
+ * Token-bucket limits for the auth routes, backed by the same store options
+ * as nonces and sessions
+ *
+ * Adapters:
+ * - memory: process-local (default)
+ * - sqlite: shared by processes on one host
+ * - redis: shared across instances (AUTH_STORE=redis, REDIS_URL), or wired with
+ *   setRateLimitStore(createRedisRateLimitStore(client))
+ *
+ * Configuration ("<capacity>/<seconds to refill fully>"):
+ * - RATE_LIMIT_NONCE_IP (default 10/60)
+ * - RATE_LIMIT_VERIFY_IP (default 10/60)
+ * - RATE_LIMIT_VERIFY_ADDRESS (default 5/60)
+ * - RATE_LIMIT_PASSKEY_CHALLENGE: passkey challenges per session (default 10/60)
+ * - MAX_OUTSTANDING_NONCES: pending nonces across all clients (default 10000)
+ * - MAX_OUTSTANDING_NONCES_PER_IP: pending nonces for one client IP (default 20)
+ * - TRUSTED_PROXY_HOPS: proxies whose X-Forwarded-For entries are trusted (lib/proxy.ts);
+ *   without it per-IP limits only see the platform's client IP, if it has one
+ */
+
+export interface RateLimit {
+  /** Bucket size, i.e. allowed burst */
+  capacity: number;
+  /** Time to refill an empty bucket */
+  refillMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until one token is available (0 when allowed) */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  /** Atomically take one token from the bucket for key */
+  take(key: string, limit: RateLimit): Promise<RateLimitResult>;
+}
+
+function parseLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    return fallback;
+  }
+  return { capacity: Number(match[1]), refillMs: Number(match[2]) * 1000 };
+}
+
+export const rateLimits = {
+  nonceIp: parseLimit(process.env.RATE_LIMIT_NONCE_IP, { capacity: 10, refillMs: 60_000 }),
+  verifyIp: parseLimit(process.env.RATE_LIMIT_VERIFY_IP, { capacity: 10, refillMs: 60_000 }),
+  verifyAddress: parseLimit(process.env.RATE_LIMIT_VERIFY_ADDRESS, { capacity: 5, refillMs: 60_000 }),
+  passkeyChallenge: parseLimit(process.env.RATE_LIMIT_PASSKEY_CHALLENGE, { capacity: 10, refillMs: 60_000 }),
+};
+
+export const MAX_OUTSTANDING_NONCES = Number(process.env.MAX_OUTSTANDING_NONCES) || 10_000;
+export const MAX_OUTSTANDING_NONCES_PER_IP = Number(process.env.MAX_OUTSTANDING_NONCES_PER_IP) || 20;
+
+/**
+ * Refill a bucket for elapsed time and try to take a token
+ */
+function takeToken(tokens: number, updatedAt: number, now: number, limit: RateLimit) {
+  const rate = limit.capacity / limit.refillMs;
+  const available = Math.min(limit.capacity, tokens + (now - updatedAt) * rate);
+
+  if (available >= 1) {
+    return { tokens: available - 1, result: { allowed: true, retryAfterMs: 0 } };
+  }
+  return { tokens: available, result: { allowed: false, retryAfterMs: Math.ceil((1 - available) / rate) } };
+}
+
+/**
+ * In-memory adapter
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; refillMs: number }>();
+
+  // Drop buckets idle long enough to be full again
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt >= bucket.refillMs) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    async take(key, limit) {
+      const now = Date.now();
+      if (buckets.size > 10_000) {
+        prune(now);
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+      const { tokens, result } = takeToken(bucket.tokens, bucket.updatedAt, now, limit);
+      buckets.set(key, { tokens, updatedAt: now, refillMs: limit.refillMs });
+      return result;
+    },
+  };
+}
+
+/**
+ * SQLite adapter
+ * better-sqlite3 transactions are synchronous, so read-modify-write is atomic
+ */
+export function createSqliteRateLimitStore(): RateLimitStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rate_limits (
+      key TEXT PRIMARY KEY,
+      tokens REAL NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    )
+  `);
+
+  const select = db.prepare<[string], { tokens: number; updated_at: number }>(
+    'SELECT tokens, updated_at FROM rate_limits WHERE key = ?'
+  );
+  const upsert = db.prepare(
+    'INSERT OR REPLACE INTO rate_limits (key, tokens, updated_at, expires_at) VALUES (?, ?, ?, ?)'
+  );
+  const prune = db.prepare('DELETE FROM rate_limits WHERE expires_at <= ?');
+
+  const take = db.transaction((key: string, limit: RateLimit, now: number) => {
+    const row = select.get(key);
+    const { tokens, result } = takeToken(row?.tokens ?? limit.capacity, row?.updated_at ?? now, now, limit);
+    upsert.run(key, tokens, now, now + limit.refillMs);
+    return result;
+  });
+
+  let calls = 0;
+
+  return {
+    async take(key, limit) {
+      const now = Date.now();
+      if (++calls % 100 === 0) {
+        prune.run(now);
+      }
+      return take(key, limit, now);
+    },
+  };
+}
+
+// Same bucket math as takeToken, run inside Redis so it is atomic across instances
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_ms = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local rate = capacity / refill_ms
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = tonumber(bucket[1]) or capacity
+local updated_at = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - updated_at) * rate)
+local retry_after = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  retry_after = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], refill_ms)
+return retry_after
+`;
+
+/**
+ * Redis adapter
+ */
+export function createRedisRateLimitStore(client: RedisLike, prefix = 'ratelimit:'): RateLimitStore {
+  return {
+    async take(key, limit) {
+      const retryAfterMs = Number(
+        await client.eval(TAKE_SCRIPT, 1, prefix + key, limit.capacity, limit.refillMs, Date.now())
+      );
+      return { allowed: retryAfterMs === 0, retryAfterMs };
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForRateLimits = globalThis as unknown as {
+  rateLimitStore: RateLimitStore | undefined;
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimits.rateLimitStore) {
+    const kind = getAuthStoreKind();
+    globalForRateLimits.rateLimitStore =
+      kind === 'redis'
+        ? createRedisRateLimitStore(getRedisClient())
+        : kind === 'sqlite'
+          ? createSqliteRateLimitStore()
+          : createMemoryRateLimitStore();
+  }
+  return globalForRateLimits.rateLimitStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimits.rateLimitStore = store;
+}
+
+/**
+ * Take a token from the bucket for key
+ */
+export function checkRateLimit(key: string, limit: RateLimit): Promise<RateLimitResult> {
+  return getRateLimitStore().take(key, limit);
+}
+
+/**
+ * 429 response with Retry-After (seconds)
+ */
+export function rateLimitedResponse(retryAfterMs: number, error = 'Too many requests, please try again later') {
+  return NextResponse.json(
+    { error, code: 'RATE_LIMITED' },
+    { status: 429, headers: { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) } }
+  );
+}
+
+/** Rate limit key shared by clients whose IP is not known */
+export const DIRECT_CLIENT = 'unknown';
+
+/**
+ * Client IP as seen by the trusted proxy in front of the app
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, and everything to the left of that came from the client, so
+ * the IP is read TRUSTED_PROXY_HOPS entries from the right. X-Real-IP, which
+ * proxies overwrite rather than append, is the fallback.
+ *
+ * Without trusted proxies both headers are whatever the client sent, so they
+ * are ignored: the IP is the one the platform reports for the connection
+ * (request.ip), if any. Otherwise every client shares the DIRECT_CLIENT bucket,
+ * which is safe but strict: set TRUSTED_PROXY_HOPS in production.
+ */
+export function getClientIp(request: Request): string {
+  const hops = trustedProxyHops();
+  if (hops === 0) {
+    return (request as Request & { ip?: string }).ip || DIRECT_CLIENT;
+  }
+
+  const entries = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length > 0) {
+    return entries[Math.max(0, entries.length - hops)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || DIRECT_CLIENT;
+}
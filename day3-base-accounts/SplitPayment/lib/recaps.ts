@@ -0,0 +1,128 @@
+/**
+ * SIWE ReCaps (EIP-5573)
+ *
+ * Capabilities a user approves while signing in. They travel in the SIWE message
+ * as a "urn:recap:" resource, and the statement spells them out so the user reads
+ * what they grant. Shared by the client (building the request) and the server
+ * (verifying it, see readScopeGrants in lib/siwe.ts).
+ *
+ * Scopes this app understands:
+ * - splits/store: keep the user's split templates on the server
+ * - paymaster/sponsor: send sponsored transactions; caveat { maxPerDay }
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-5573
+ */
+
+export const RECAP_PREFIX = 'urn:recap:';
+
+export const SCOPES = ['splits/store', 'paymaster/sponsor'] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+/** Granted scopes and their caveats, e.g. { 'paymaster/sponsor': { maxPerDay: 5 } } */
+export type ScopeGrants = Partial<Record<Scope, Record<string, unknown>>>;
+
+/** What signIn asks for unless told otherwise */
+export const DEFAULT_SCOPE_REQUEST: ScopeGrants = {
+  'splits/store': {},
+  'paymaster/sponsor': { maxPerDay: 5 },
+};
+
+/** ReCap attenuations: resource URI -> "namespace/ability" -> caveats */
+export type RecapAttenuations = Record<string, Record<string, Record<string, unknown>[]>>;
+
+export interface Recap {
+  att: RecapAttenuations;
+  prf: string[];
+}
+
+export function isScope(value: unknown): value is Scope {
+  return SCOPES.includes(value as Scope);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// The spec orders resources and abilities lexicographically
+const sortedKeys = (value: object) => Object.keys(value).sort();
+
+/**
+ * Attenuations granting scopes on one resource (the app's origin)
+ */
+export function recapForScopes(resource: string, scopes: ScopeGrants): RecapAttenuations {
+  const abilities: Record<string, Record<string, unknown>[]> = {};
+  for (const [scope, caveats] of Object.entries(scopes)) {
+    abilities[scope] = [caveats ?? {}];
+  }
+  return { [resource]: abilities };
+}
+
+/**
+ * The "urn:recap:" resource for a set of attenuations
+ */
+export function encodeRecap(att: RecapAttenuations): string {
+  const sorted: RecapAttenuations = {};
+  for (const resource of sortedKeys(att)) {
+    sorted[resource] = {};
+    for (const ability of sortedKeys(att[resource])) {
+      sorted[resource][ability] = att[resource][ability];
+    }
+  }
+  return RECAP_PREFIX + toBase64Url(JSON.stringify({ att: sorted, prf: [] }));
+}
+
+/**
+ * Read a "urn:recap:" resource
+ * @throws Error if it isn't a well-formed ReCap
+ */
+export function decodeRecap(resource: string): Recap {
+  if (!resource.startsWith(RECAP_PREFIX)) {
+    throw new Error('Not a ReCap resource');
+  }
+  const recap: unknown = JSON.parse(fromBase64Url(resource.slice(RECAP_PREFIX.length)));
+  if (!isObject(recap) || !isObject(recap.att)) {
+    throw new Error('ReCap has no attenuations');
+  }
+
+  for (const abilities of Object.values(recap.att)) {
+    if (!isObject(abilities)) {
+      throw new Error('ReCap abilities must be an object');
+    }
+    for (const [ability, caveats] of Object.entries(abilities)) {
+      if (!/^[^/\s]+\/[^/\s]+$/.test(ability) || !Array.isArray(caveats) || !caveats.every(isObject)) {
+        throw new Error(`Invalid ReCap ability ${ability}`);
+      }
+    }
+  }
+  return { att: recap.att as RecapAttenuations, prf: Array.isArray(recap.prf) ? recap.prf : [] };
+}
+
+/**
+ * The text EIP-5573 appends to the SIWE statement for a set of attenuations
+ */
+export function recapStatement(att: RecapAttenuations): string {
+  const items: string[] = [];
+  for (const resource of sortedKeys(att)) {
+    const byNamespace = new Map<string, string[]>();
+    for (const ability of sortedKeys(att[resource])) {
+      const [namespace, name] = ability.split('/');
+      byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), name]);
+    }
+    for (const namespace of Array.from(byNamespace.keys()).sort()) {
+      const names = byNamespace.get(namespace)!.map((name) => `'${name}'`).join(', ');
+      items.push(`(${items.length + 1}) '${namespace}': ${names} for '${resource}'.`);
+    }
+  }
+  return `I further authorize the stated URI to perform the following actions on my behalf: ${items.join(' ')}`;
+}
@@ -0,0 +1,163 @@
+import { getAddress, isAddress, type Address } from 'viem';
+import { normalize } from 'viem/ens';
+
+/**
+ * Split Recipients
+ *
+ * The recipient list behind the split form: rows the user can add, remove and
+ * reorder, and the checks run before a batch is built
+ *
+ * A recipient is an address or an ENS name / Basename (alice.eth,
+ * alice.base.eth). Names are resolved by the form and the result is pinned on
+ * the row (resolved); checks and payments only ever use that pinned address, so
+ * a name re-pointed while the user signs can't redirect funds.
+ *
+ * Checks per row:
+ * - REQUIRED: the address is empty
+ * - INVALID_ADDRESS: not an Ethereum address (mixed case must be a valid checksum) or name
+ * - RESOLVING: a name whose address hasn't been looked up yet
+ * - UNRESOLVED: a name with no address
+ * - DUPLICATE: the same address appears in an earlier row (names included)
+ *
+ * A batch holds one call per recipient, so the list is capped at
+ * MAX_RECIPIENTS (NEXT_PUBLIC_MAX_RECIPIENTS, default 20).
+ */
+
+export const MAX_RECIPIENTS = Number(process.env.NEXT_PUBLIC_MAX_RECIPIENTS) || 20;
+
+export interface RecipientRow {
+  /** Stable key for rendering and reordering */
+  id: string;
+  /** Address or name, as typed */
+  address: string;
+  /** Address a name resolved to, pinned when it was looked up */
+  resolved?: ResolvedName | null;
+  /** Percentage, share or fixed amount, depending on the split mode (lib/splits.ts) */
+  value: string;
+  /** Note shown with the row and kept in exports, e.g. "Rent" */
+  label?: string;
+}
+
+export interface ResolvedName {
+  /** Normalized name */
+  name: string;
+  /** null when the name has no address */
+  address: Address | null;
+}
+
+export type RecipientError = 'REQUIRED' | 'INVALID_ADDRESS' | 'RESOLVING' | 'UNRESOLVED' | 'DUPLICATE';
+
+export const RECIPIENT_ERROR_MESSAGES: Record<RecipientError, string> = {
+  REQUIRED: 'Enter an address',
+  INVALID_ADDRESS: 'Not a valid address or name',
+  RESOLVING: 'Looking up name...',
+  UNRESOLVED: "This name doesn't resolve to an address",
+  DUPLICATE: 'Already in the list',
+};
+
+export interface RecipientListCheck {
+  /** One entry per row, null when the row is fine */
+  errors: (RecipientError | null)[];
+  /** Problem with the list as a whole (empty or too long) */
+  listError: string | null;
+  valid: boolean;
+  /** Checksummed addresses, in order, once valid (names as resolved) */
+  addresses: Address[];
+}
+
+let nextId = 0;
+
+/**
+ * A new row, empty unless given an address and value
+ */
+export function newRecipient(address = '', value = ''): RecipientRow {
+  nextId += 1;
+  return { id: `recipient-${nextId}`, address, value };
+}
+
+/**
+ * Move the row at index `from` to index `to`
+ * @returns a new list; the same list if either index is out of range
+ */
+export function moveRecipient<T>(list: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= list.length || to >= list.length) {
+    return list;
+  }
+  const moved = [...list];
+  const [row] = moved.splice(from, 1);
+  moved.splice(to, 0, row);
+  return moved;
+}
+
+/**
+ * The normalized ENS name / Basename a recipient was typed as
+ * @returns null for anything that isn't a name (addresses included)
+ */
+export function recipientName(value: string): string | null {
+  const trimmed = value.trim();
+  if (!/^[^\s.]+(\.[^\s.]+)+$/.test(trimmed)) {
+    return null;
+  }
+  try {
+    return normalize(trimmed);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Address a row pays, or why it has none
+ */
+function rowTarget(row: RecipientRow): Address | RecipientError {
+  const trimmed = row.address.trim();
+  if (!trimmed) {
+    return 'REQUIRED';
+  }
+  if (isAddress(trimmed)) {
+    return getAddress(trimmed);
+  }
+
+  const name = recipientName(trimmed);
+  if (!name) {
+    return 'INVALID_ADDRESS';
+  }
+  if (row.resolved?.name !== name) {
+    return 'RESOLVING';
+  }
+  return row.resolved.address ?? 'UNRESOLVED';
+}
+
+/**
+ * Validate every row and the list size
+ */
+export function checkRecipients(list: RecipientRow[], max = MAX_RECIPIENTS): RecipientListCheck {
+  const seen = new Set<string>();
+  const targets: Address[] = [];
+  const errors = list.map((row): RecipientError | null => {
+    const target = rowTarget(row);
+    if (!isAddress(target)) {
+      return target;
+    }
+    if (seen.has(target)) {
+      return 'DUPLICATE';
+    }
+    seen.add(target);
+    targets.push(target);
+    return null;
+  });
+
+  const listError =
+    list.length === 0
+      ? 'Add at least one recipient'
+      : list.length > max
+        ? `A split can have at most ${max} recipients`
+        : null;
+  const valid = !listError && errors.every((error) => error === null);
+
+  return {
+    errors,
+    listError,
+    valid,
+    addresses: valid ? targets : [],
+  };
+}
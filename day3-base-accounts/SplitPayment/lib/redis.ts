@@ -0,0 +1,23 @@
+import Redis from 'ioredis';
+import type { RedisLike } from './nonceStore';
+
+/**
+ * Shared Redis Client
+ *
+ * One connection for the Redis adapters (nonces, rate limits), used when
+ * AUTH_STORE=redis. Uses global singleton pattern so hot reloads reuse it.
+ *
+ * Configuration:
+ * - REDIS_URL: server to connect to (default: redis://localhost:6379)
+ */
+
+const globalForRedis = globalThis as unknown as {
+  redis: RedisLike | undefined;
+};
+
+export function getRedisClient(): RedisLike {
+  if (!globalForRedis.redis) {
+    globalForRedis.redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+  }
+  return globalForRedis.redis;
+}
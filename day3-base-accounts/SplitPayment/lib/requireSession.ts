@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import { getSessionFromRequest, verifyCsrf } from './sessionCookie';
+import type { Session } from './sessions';
+import { SENDER_HEADER } from './authCookies';
+import { getUser } from './identity';
+import { hasRole, type Role } from './roles';
+import type { Scope } from './recaps';
+import { getStepUpExpiry } from './passkeys';
+import { audit } from './audit';
+
+/**
+ * Route Handler Authentication
+ *
+ * Usage:
+ *   const auth = await requireSession(request);
+ *   if (auth instanceof NextResponse) return auth;
+ *   const { userId, addresses } = auth;
+ *
+ * Mutating methods also require the CSRF header
+ *
+ * Sender check:
+ *   Requests that act for a wallet must come from one of the user's linked
+ *   addresses. The sender is taken from options.sender (e.g. a body's "from") or
+ *   the x-sender-address header; any other address gets 403 SENDER_MISMATCH.
+ *
+ * Role-gated routes use requireRole(request, 'operator') or requireAdmin(),
+ * which check the role attached to the session at sign-in (lib/roleStore.ts);
+ * a lower role gets 403 FORBIDDEN.
+ *
+ * Feature-gated routes use requireClaim(request, 'coinbaseVerified'), which
+ * checks the onchain claims met at sign-in (lib/claims.ts); a session without
+ * the claim gets 403 CLAIM_REQUIRED.
+ *
+ * Routes acting under a permission the user granted at sign-in (a SIWE ReCap,
+ * lib/recaps.ts) use requireScope(request, 'splits/store'); the scope's caveats
+ * are in auth.session.scopes. Without the scope: 403 SCOPE_REQUIRED.
+ *
+ * Sensitive actions use requireStepUp(request), which needs a passkey
+ * confirmation within the last STEP_UP_WINDOW_MS (lib/passkeys.ts); otherwise
+ * 403 STEP_UP_REQUIRED, and the client runs the step-up and retries.
+ *
+ * The saved split group routes use requireSplitGroupOwner(request): the
+ * splits/store scope plus the wallet address that owns the groups.
+ */
+
+export interface AuthenticatedSession {
+  userId: string;
+  /** Wallet the session signed in with (null for Farcaster sign-in) */
+  address: string | null;
+  fid: number | null;
+  /** Every wallet linked to the user */
+  addresses: string[];
+  /** Role as of sign-in */
+  role: Role;
+  /** Onchain claims met at sign-in */
+  claims: string[];
+  session: Session;
+}
+
+export interface RequireSessionOptions {
+  /** Address the request claims to act for */
+  sender?: string | null;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function isSameAddress(a: string, b: string): boolean {
+  return isAddress(a, { strict: false }) && isAddress(b, { strict: false }) && getAddress(a) === getAddress(b);
+}
+
+/**
+ * Consistent JSON body for auth failures
+ */
+export function authError(error: string, code: string, status: number) {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * Parse a JSON request body as an object
+ * Invalid JSON, null, arrays and other values all read as {}
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  const body: unknown = await request.json().catch(() => null);
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+/**
+ * Resolve the session (and its user) for a request
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireSession(
+  request: NextRequest,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  const session = await getSessionFromRequest(request);
+  // The user is gone if it was merged into another one; that user's sessions were revoked
+  const user = session ? await getUser(session.userId) : null;
+
+  if (!session || !user) {
+    return authError('Authentication required', 'UNAUTHENTICATED', 401);
+  }
+
+  if (!SAFE_METHODS.includes(request.method) && !verifyCsrf(request)) {
+    await audit({ event: 'access.denied', outcome: 'failure', reason: 'CSRF_MISMATCH', address: session.address, request });
+    return authError('Invalid CSRF token', 'CSRF_MISMATCH', 403);
+  }
+
+  const sender = options.sender ?? request.headers.get(SENDER_HEADER);
+  if (sender && !user.addresses.some((address) => isSameAddress(sender, address))) {
+    await audit({
+      event: 'access.denied',
+      outcome: 'failure',
+      reason: 'SENDER_MISMATCH',
+      address: session.address,
+      request,
+      details: { sender },
+    });
+    return authError('Sender is not a wallet linked to the signed-in user', 'SENDER_MISMATCH', 403);
+  }
+
+  return {
+    userId: user.id,
+    address: session.address,
+    fid: user.fid,
+    addresses: user.addresses,
+    role: session.role,
+    claims: session.claims,
+    session,
+  };
+}
+
+/**
+ * Resolve the session for a route that needs at least the given role
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireRole(
+  request: NextRequest,
+  role: Role,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  const auth = await requireSession(request, options);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  if (!hasRole(auth.role, role)) {
+    await audit({
+      event: 'access.denied',
+      outcome: 'failure',
+      reason: 'FORBIDDEN',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, role: auth.role, required: role },
+    });
+    return authError(`${role[0].toUpperCase()}${role.slice(1)} access required`, 'FORBIDDEN', 403);
+  }
+
+  return auth;
+}
+
+/**
+ * Resolve the session for an admin-only route
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export function requireAdmin(
+  request: NextRequest,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  return requireRole(request, 'admin', options);
+}
+
+/**
+ * Resolve the session for a route gated on an onchain claim
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireClaim(
+  request: NextRequest,
+  claim: string,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  const auth = await requireSession(request, options);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  if (!auth.claims.includes(claim)) {
+    await audit({
+      event: 'access.denied',
+      outcome: 'failure',
+      reason: 'CLAIM_REQUIRED',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, claim },
+    });
+    return authError(`This feature requires the ${claim} claim`, 'CLAIM_REQUIRED', 403);
+  }
+
+  return auth;
+}
+
+/**
+ * Resolve the session for a route that needs a scope granted at sign-in
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireScope(
+  request: NextRequest,
+  scope: Scope,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  const auth = await requireSession(request, options);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  if (!auth.session.scopes[scope]) {
+    await audit({
+      event: 'access.denied',
+      outcome: 'failure',
+      reason: 'SCOPE_REQUIRED',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId, scope },
+    });
+    return authError(`Sign in again and allow ${scope} to use this feature`, 'SCOPE_REQUIRED', 403);
+  }
+
+  return auth;
+}
+
+/**
+ * Resolve the session for a sensitive action, confirmed with a passkey recently
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireStepUp(
+  request: NextRequest,
+  options: RequireSessionOptions = {}
+): Promise<AuthenticatedSession | NextResponse> {
+  const auth = await requireSession(request, options);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  if (!(await getStepUpExpiry(auth.session.id))) {
+    await audit({
+      event: 'access.denied',
+      outcome: 'failure',
+      reason: 'STEP_UP_REQUIRED',
+      address: auth.address,
+      request,
+      details: { userId: auth.userId },
+    });
+    return authError('Confirm with your passkey to continue', 'STEP_UP_REQUIRED', 403);
+  }
+
+  return auth;
+}
+
+/**
+ * Resolve the session for the saved split group routes (lib/splitGroups.ts)
+ * Needs the splits/store scope and a wallet address, which owns the groups;
+ * Farcaster sessions have none: 403 SPLIT_GROUPS_UNAVAILABLE
+ * @returns the session, or a 401/403 response to return as-is
+ */
+export async function requireSplitGroupOwner(
+  request: NextRequest,
+  options: RequireSessionOptions = {}
+): Promise<(AuthenticatedSession & { address: string }) | NextResponse> {
+  const auth = await requireScope(request, 'splits/store', options);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  if (!auth.address) {
+    return authError('Sign in with a wallet to save split groups', 'SPLIT_GROUPS_UNAVAILABLE', 403);
+  }
+
+  return { ...auth, address: auth.address };
+}
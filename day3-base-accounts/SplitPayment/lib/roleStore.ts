@@ -0,0 +1,194 @@
+import { getAddress, isAddress } from 'viem';
+import { getDb, getAuthStoreKind } from './db';
+import { highestRole, type Role } from './roles';
+import { rolesConfig } from '@/roles.config';
+
+/**
+ * Role Assignments
+ *
+ * Which role each address has, from two sources:
+ * - config: roles.config.ts (including its baseBuilder.allowedAddresses as admins),
+ *   ADMIN_ADDRESSES and OPERATOR_ADDRESSES; read-only at runtime
+ * - granted: assigned through /api/admin/roles and kept in the role store
+ *
+ * An address gets the higher of the two; a user gets the highest role of any
+ * linked address. Roles are attached to the session at sign-in.
+ *
+ * Configuration:
+ * - AUTH_STORE=memory | sqlite (redis also means sqlite here, see lib/db.ts)
+ */
+
+export interface RoleAssignment {
+  address: string;
+  role: Role;
+  source: 'config' | 'granted';
+}
+
+export interface RoleStore {
+  get(address: string): Promise<Role | null>;
+  set(address: string, role: Role): Promise<void>;
+  delete(address: string): Promise<boolean>;
+  list(): Promise<{ address: string; role: Role }[]>;
+}
+
+/**
+ * In-memory store
+ */
+export function createMemoryRoleStore(): RoleStore {
+  const roles = new Map<string, Role>();
+
+  return {
+    async get(address) {
+      return roles.get(address) ?? null;
+    },
+    async set(address, role) {
+      roles.set(address, role);
+    },
+    async delete(address) {
+      return roles.delete(address);
+    },
+    async list() {
+      return Array.from(roles, ([address, role]) => ({ address, role }));
+    },
+  };
+}
+
+/**
+ * SQLite store
+ */
+export function createSqliteRoleStore(): RoleStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS roles (
+      address TEXT PRIMARY KEY,
+      role TEXT NOT NULL,
+      granted_at INTEGER NOT NULL
+    )
+  `);
+
+  const select = db.prepare<[string], { role: Role }>('SELECT role FROM roles WHERE address = ?');
+  const upsert = db.prepare('INSERT OR REPLACE INTO roles (address, role, granted_at) VALUES (?, ?, ?)');
+  const remove = db.prepare('DELETE FROM roles WHERE address = ?');
+  const selectAll = db.prepare<[], { address: string; role: Role }>(
+    'SELECT address, role FROM roles ORDER BY granted_at'
+  );
+
+  return {
+    async get(address) {
+      return select.get(address)?.role ?? null;
+    },
+    async set(address, role) {
+      upsert.run(address, role, Date.now());
+    },
+    async delete(address) {
+      return remove.run(address).changes === 1;
+    },
+    async list() {
+      return selectAll.all();
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForRoles = globalThis as unknown as {
+  roleStore: RoleStore | undefined;
+};
+
+/**
+ * Get the configured role store (created on first use from AUTH_STORE)
+ */
+export function getRoleStore(): RoleStore {
+  if (!globalForRoles.roleStore) {
+    globalForRoles.roleStore = getAuthStoreKind() !== 'memory' ? createSqliteRoleStore() : createMemoryRoleStore();
+  }
+  return globalForRoles.roleStore;
+}
+
+/**
+ * Replace the role store
+ */
+export function setRoleStore(store: RoleStore) {
+  globalForRoles.roleStore = store;
+}
+
+// Checksummed, skipping blanks and anything that isn't an address
+function parseAddresses(addresses: readonly string[]): string[] {
+  return addresses
+    .map((address) => address.trim())
+    .filter((address) => isAddress(address, { strict: false }))
+    .map((address) => getAddress(address));
+}
+
+function envAddresses(value: string | undefined): string[] {
+  return parseAddresses((value ?? '').split(','));
+}
+
+/**
+ * Roles from configuration
+ */
+function configuredRoles(): Map<string, Role> {
+  const roles = new Map<string, Role>();
+  const assign = (addresses: string[], role: Role) => {
+    for (const address of addresses) {
+      roles.set(address, highestRole(roles.get(address) ?? 'user', role));
+    }
+  };
+
+  assign(parseAddresses(rolesConfig.operators), 'operator');
+  assign(envAddresses(process.env.OPERATOR_ADDRESSES), 'operator');
+  assign(parseAddresses(rolesConfig.admins), 'admin');
+  assign(parseAddresses(rolesConfig.baseBuilder.allowedAddresses), 'admin');
+  assign(envAddresses(process.env.ADMIN_ADDRESSES), 'admin');
+  return roles;
+}
+
+/**
+ * Role of one address, from config and grants
+ */
+export async function getAddressRole(address: string): Promise<Role> {
+  const normalized = getAddress(address);
+  const configured = configuredRoles().get(normalized) ?? 'user';
+  const granted = await getRoleStore().get(normalized);
+  return granted ? highestRole(configured, granted) : configured;
+}
+
+/**
+ * Role of a user: the highest role of any of their addresses
+ */
+export async function resolveRole(addresses: string[]): Promise<Role> {
+  let role: Role = 'user';
+  for (const address of addresses) {
+    role = highestRole(role, await getAddressRole(address));
+  }
+  return role;
+}
+
+/**
+ * Every address with a role above user, config entries first
+ */
+export async function listRoleAssignments(): Promise<RoleAssignment[]> {
+  const assignments: RoleAssignment[] = Array.from(configuredRoles(), ([address, role]) => ({
+    address,
+    role,
+    source: 'config' as const,
+  }));
+  for (const { address, role } of await getRoleStore().list()) {
+    assignments.push({ address, role, source: 'granted' });
+  }
+  return assignments;
+}
+
+/**
+ * Grant a role to an address (replaces an earlier grant)
+ */
+export async function grantRole(address: string, role: Role) {
+  await getRoleStore().set(getAddress(address), role);
+}
+
+/**
+ * Remove an address's granted role; config roles stay
+ * @returns false if there was no grant
+ */
+export async function revokeRole(address: string): Promise<boolean> {
+  return getRoleStore().delete(getAddress(address));
+}
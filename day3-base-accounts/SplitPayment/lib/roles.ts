@@ -0,0 +1,30 @@
+/**
+ * Roles
+ *
+ * Free of server-only imports so route helpers and client UI share one ranking
+ *
+ * Roles are ordered: admin includes everything an operator can do, and an
+ * operator everything a user can do. Every signed-in user has at least "user".
+ */
+
+export const ROLES = ['user', 'operator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Check a role grants at least the required one
+ */
+export function hasRole(role: Role | null | undefined, required: Role): boolean {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * The higher of two roles
+ */
+export function highestRole(a: Role, b: Role): Role {
+  return hasRole(a, b) ? a : b;
+}
@@ -0,0 +1,247 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { hmac, safeEqual } from './hmac';
+import { SESSION_COOKIE, REFRESH_COOKIE, CSRF_COOKIE, CSRF_HEADER } from './authCookies';
+import {
+  createSession,
+  getSession,
+  listSessions,
+  revokeSession,
+  revokeSessionById,
+  revokeAllSessions,
+  revokeSessionsByAddress,
+  SESSION_TTL_MS,
+  type Session,
+  type SessionClient,
+  type SessionSubject,
+} from './sessions';
+import {
+  getSessionMode,
+  issueTokens,
+  verifyAccessToken,
+  rotateRefreshToken,
+  readRefreshToken,
+  listTokenFamilies,
+  revokeTokenFamily,
+  revokeTokenFamilyById,
+  revokeAllTokenFamilies,
+  revokeTokenFamiliesByAddress,
+  REFRESH_TOKEN_TTL_MS,
+  type RefreshResult,
+} from './tokens';
+import { getClientIp } from './rateLimit';
+
+/**
+ * Session Cookie Utilities
+ *
+ * The session token only ever travels in an httpOnly cookie, so page scripts
+ * (and anything injected into them) can't read it
+ *
+ * Cookies:
+ * - siwe_session: httpOnly session token (stateful) or signed access token (stateless)
+ * - siwe_refresh: httpOnly rotating refresh token (stateless only, scoped to /api/auth)
+ * - csrf_token: readable CSRF token derived from the session cookie
+ */
+
+const baseCookieOptions = {
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_TTL_MS / 1000,
+};
+
+const refreshCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/api/auth',
+  maxAge: REFRESH_TOKEN_TTL_MS / 1000,
+};
+
+function csrfTokenFor(sessionToken: string): string {
+  return hmac(`csrf:${sessionToken}`);
+}
+
+/**
+ * Attach session and CSRF cookies to a response
+ */
+export function setSessionCookies(response: NextResponse, sessionToken: string) {
+  response.cookies.set(SESSION_COOKIE, sessionToken, { ...baseCookieOptions, httpOnly: true });
+  response.cookies.set(CSRF_COOKIE, csrfTokenFor(sessionToken), { ...baseCookieOptions, httpOnly: false });
+}
+
+/**
+ * Expire session, refresh and CSRF cookies
+ */
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { ...baseCookieOptions, httpOnly: true, maxAge: 0 });
+  response.cookies.set(CSRF_COOKIE, '', { ...baseCookieOptions, httpOnly: false, maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { ...refreshCookieOptions, maxAge: 0 });
+}
+
+/**
+ * Raw session token from the request cookie
+ */
+export function getSessionToken(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+/**
+ * Resolve the session for a request
+ * @returns the session, or null if there is no valid session cookie
+ */
+export async function getSessionFromRequest(request: NextRequest): Promise<Session | null> {
+  const token = getSessionToken(request);
+  if (!token) {
+    return null;
+  }
+  return getSessionMode() === 'stateless' ? verifyAccessToken(token) : getSession(token);
+}
+
+/**
+ * Check the CSRF header matches the session cookie
+ * Call this in every mutating route that relies on the session cookie
+ */
+export function verifyCsrf(request: NextRequest): boolean {
+  const token = getSessionToken(request);
+  const header = request.headers.get(CSRF_HEADER);
+  return !!token && !!header && safeEqual(header, csrfTokenFor(token));
+}
+
+/**
+ * Device and IP of the request, recorded on the session at sign-in
+ */
+export function getSessionClient(request: NextRequest): SessionClient {
+  return { userAgent: request.headers.get('user-agent'), ip: getClientIp(request) };
+}
+
+export interface StartedSession {
+  session: Session;
+  /** Stateless mode only: when the client must refresh by */
+  accessExpiresAt?: number;
+  /** Attach the session cookies to the sign-in response */
+  setCookies(response: NextResponse): void;
+}
+
+/**
+ * Sign in: create a session (or token family) for a user and the credential they used
+ */
+export async function startSession(subject: SessionSubject, client: SessionClient = {}): Promise<StartedSession> {
+  if (getSessionMode() === 'stateless') {
+    const { accessToken, refreshToken, accessExpiresAt, session } = await issueTokens(subject, client);
+    return {
+      session,
+      accessExpiresAt,
+      setCookies(response) {
+        setSessionCookies(response, accessToken);
+        response.cookies.set(REFRESH_COOKIE, refreshToken, refreshCookieOptions);
+      },
+    };
+  }
+
+  const { token, session } = await createSession(subject, client);
+  return {
+    session,
+    setCookies(response) {
+      setSessionCookies(response, token);
+    },
+  };
+}
+
+/**
+ * Rotate the request's refresh cookie (stateless mode)
+ */
+export async function refreshSession(request: NextRequest): Promise<RefreshResult> {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!refreshToken) {
+    return { ok: false, code: 'INVALID_REFRESH_TOKEN' };
+  }
+  return rotateRefreshToken(refreshToken);
+}
+
+/**
+ * Set the rotated cookies, or clear them all if the refresh failed
+ */
+export function setRefreshedCookies(response: NextResponse, result: RefreshResult) {
+  if (result.ok) {
+    setSessionCookies(response, result.tokens.accessToken);
+    response.cookies.set(REFRESH_COOKIE, result.tokens.refreshToken, refreshCookieOptions);
+  } else {
+    clearSessionCookies(response);
+  }
+}
+
+/**
+ * Active sessions (or token families in stateless mode) for a user
+ */
+export function listActiveSessions(userId: string): Promise<Session[]> {
+  return getSessionMode() === 'stateless' ? listTokenFamilies(userId) : listSessions(userId);
+}
+
+/**
+ * Revoke one of a user's sessions by id
+ * In stateless mode the device keeps access until its access token expires
+ */
+export function revokeActiveSession(userId: string, id: string): Promise<boolean> {
+  return getSessionMode() === 'stateless' ? revokeTokenFamilyById(userId, id) : revokeSessionById(userId, id);
+}
+
+/**
+ * Revoke every session (or token family) for a user
+ */
+export function revokeUserSessions(userId: string): Promise<number> {
+  return getSessionMode() === 'stateless' ? revokeAllTokenFamilies(userId) : revokeAllSessions(userId);
+}
+
+/**
+ * Revoke every session (or token family) signed in with an address, e.g. a
+ * linked wallet that was compromised; the user's other sign-ins stay
+ */
+export function revokeAddressSessions(address: string): Promise<number> {
+  return getSessionMode() === 'stateless' ? revokeTokenFamiliesByAddress(address) : revokeSessionsByAddress(address);
+}
+
+/** Who a sign-out ended the session for */
+export interface EndedSession {
+  userId: string;
+  address: string | null;
+}
+
+/**
+ * Sign out: revoke the request's session (or every session for its user) and clear cookies
+ * @returns who was signed out, if the request had a session
+ */
+export async function endSession(
+  request: NextRequest,
+  response: NextResponse,
+  allDevices = false
+): Promise<EndedSession | null> {
+  const session = await getSessionFromRequest(request);
+
+  if (getSessionMode() === 'stateless') {
+    // The access token may already be expired, so fall back to the refresh token's family
+    const refresh = request.cookies.get(REFRESH_COOKIE)?.value;
+    const family = refresh ? readRefreshToken(refresh) : null;
+    const familyId = session?.id ?? family?.familyId;
+    const userId = session?.userId ?? family?.userId;
+
+    if (allDevices && userId) {
+      await revokeAllTokenFamilies(userId);
+    } else if (familyId) {
+      await revokeTokenFamily(familyId);
+    }
+    clearSessionCookies(response);
+    return userId ? { userId, address: session?.address ?? null } : null;
+  }
+
+  if (allDevices && session) {
+    await revokeAllSessions(session.userId);
+  } else {
+    const token = getSessionToken(request);
+    if (token) {
+      await revokeSession(token);
+    }
+  }
+
+  clearSessionCookies(response);
+  return session ? { userId: session.userId, address: session.address } : null;
+}
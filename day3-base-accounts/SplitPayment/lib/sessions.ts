@@ -0,0 +1,457 @@
+import crypto from 'crypto';
+import { getAddress } from 'viem';
+import { getDb, hasColumn, ensureColumn, getAuthStoreKind } from './db';
+import type { Role } from './roles';
+import type { ScopeGrants } from './recaps';
+
+/**
+ * Session Management
+ *
+ * Server-side sessions shared by every route handler
+ *
+ * Features:
+ * - Pluggable backend: memory (default) or sqlite (survives redeploys)
+ * - Optional sliding expiration (each lookup extends the session)
+ * - Sessions belong to a user (lib/identity.ts), signed in with a wallet (SIWE)
+ *   or a Farcaster ID (Quick Auth)
+ * - Index by user so all of a user's sessions can be listed or revoked
+ * - Index by address so every session signed in with a wallet can be revoked,
+ *   e.g. one of the user's linked wallets that was compromised
+ * - Carries the user's role as of sign-in (see lib/roleStore.ts)
+ * - Carries the onchain claims met at sign-in (see lib/claims.ts) and the scopes
+ *   the user granted in the SIWE message (see lib/recaps.ts)
+ * - Records the device (user agent) and approximate IP for the session list
+ *
+ * Configuration:
+ * - AUTH_STORE=memory | sqlite (redis also means sqlite here, see lib/db.ts)
+ * - SESSION_SLIDING=true to enable sliding expiration
+ *
+ * Only a SHA-256 hash of each token is stored; the raw token stays with the client
+ */
+
+// Sessions last 7 days
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface Session {
+  /** Public identifier, safe to show to the user */
+  id: string;
+  tokenHash: string;
+  userId: string;
+  /** Wallet the user signed in with (null for Farcaster sign-in) */
+  address: string | null;
+  /** Chain the user signed in on (null for Farcaster sign-in) */
+  chainId: number | null;
+  /** Farcaster ID the user signed in with */
+  fid: number | null;
+  /** Role as of sign-in */
+  role: Role;
+  /** Onchain claims met at sign-in */
+  claims: string[];
+  /** Scopes granted with a SIWE ReCap, with their caveats */
+  scopes: ScopeGrants;
+  /** Browser that signed in */
+  userAgent: string | null;
+  /** Client IP with the host part masked */
+  ip: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+}
+
+/** Credential the user signed in with */
+export type SessionSubject = { userId: string; role: Role; claims: string[]; scopes: ScopeGrants } & (
+  | { address: string; chainId: number; fid?: null }
+  | { fid: number; address?: null; chainId?: null }
+);
+
+/** Where a sign-in came from */
+export interface SessionClient {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface SessionBackend {
+  create(session: Session): Promise<void>;
+  findByTokenHash(tokenHash: string): Promise<Session | null>;
+  touch(id: string, lastSeenAt: number, expiresAt: number): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  listByUser(userId: string): Promise<Session[]>;
+  deleteByUser(userId: string): Promise<number>;
+  listByAddress(address: string): Promise<Session[]>;
+  deleteByAddress(address: string): Promise<number>;
+  pruneExpired(now: number): Promise<void>;
+}
+
+/**
+ * In-memory backend
+ */
+export function createMemorySessionBackend(): SessionBackend {
+  const sessions = new Map<string, Session>();
+  const byTokenHash = new Map<string, string>();
+  const byUser = new Map<string, Set<string>>();
+  const byAddress = new Map<string, Set<string>>();
+
+  const index = (map: Map<string, Set<string>>, key: string, id: string) => {
+    if (!map.has(key)) {
+      map.set(key, new Set());
+    }
+    map.get(key)!.add(id);
+  };
+
+  const remove = (id: string) => {
+    const session = sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    sessions.delete(id);
+    byTokenHash.delete(session.tokenHash);
+    byUser.get(session.userId)?.delete(id);
+    if (session.address) {
+      byAddress.get(session.address)?.delete(id);
+    }
+    return true;
+  };
+
+  return {
+    async create(session) {
+      sessions.set(session.id, { ...session, claims: [...session.claims], scopes: { ...session.scopes } });
+      byTokenHash.set(session.tokenHash, session.id);
+      index(byUser, session.userId, session.id);
+      if (session.address) {
+        index(byAddress, session.address, session.id);
+      }
+    },
+    async findByTokenHash(tokenHash) {
+      const id = byTokenHash.get(tokenHash);
+      const session = id ? sessions.get(id) : undefined;
+      return session ? { ...session } : null;
+    },
+    async touch(id, lastSeenAt, expiresAt) {
+      const session = sessions.get(id);
+      if (session) {
+        session.lastSeenAt = lastSeenAt;
+        session.expiresAt = expiresAt;
+      }
+    },
+    async delete(id) {
+      return remove(id);
+    },
+    async listByUser(userId) {
+      const ids = byUser.get(userId) ?? new Set<string>();
+      return Array.from(ids, (id) => ({ ...sessions.get(id)! }));
+    },
+    async deleteByUser(userId) {
+      const ids = Array.from(byUser.get(userId) ?? []);
+      ids.forEach(remove);
+      byUser.delete(userId);
+      return ids.length;
+    },
+    async listByAddress(address) {
+      const ids = byAddress.get(address) ?? new Set<string>();
+      return Array.from(ids, (id) => ({ ...sessions.get(id)! }));
+    },
+    async deleteByAddress(address) {
+      const ids = Array.from(byAddress.get(address) ?? []);
+      ids.forEach(remove);
+      byAddress.delete(address);
+      return ids.length;
+    },
+    async pruneExpired(now) {
+      for (const session of Array.from(sessions.values())) {
+        if (session.expiresAt <= now) {
+          remove(session.id);
+        }
+      }
+    },
+  };
+}
+
+interface SessionRow {
+  id: string;
+  token_hash: string;
+  user_id: string;
+  address: string | null;
+  chain_id: number | null;
+  fid: number | null;
+  role: Role;
+  claims: string;
+  scopes: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: number;
+  last_seen_at: number;
+  expires_at: number;
+}
+
+function fromRow(row: SessionRow): Session {
+  return {
+    id: row.id,
+    tokenHash: row.token_hash,
+    userId: row.user_id,
+    address: row.address,
+    chainId: row.chain_id,
+    fid: row.fid,
+    role: row.role,
+    claims: JSON.parse(row.claims),
+    scopes: JSON.parse(row.scopes),
+    userAgent: row.user_agent,
+    ip: row.ip,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * SQLite backend
+ */
+export function createSqliteSessionBackend(): SessionBackend {
+  const db = getDb();
+  // Sessions from before user identities belong to no user, so everyone signs in again
+  if (!hasColumn('sessions', 'user_id')) {
+    db.exec('DROP TABLE IF EXISTS sessions');
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      address TEXT,
+      chain_id INTEGER,
+      fid INTEGER,
+      role TEXT NOT NULL DEFAULT 'user',
+      claims TEXT NOT NULL DEFAULT '[]',
+      scopes TEXT NOT NULL DEFAULT '{}',
+      user_agent TEXT,
+      ip TEXT,
+      created_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sessions_user ON sessions (user_id);
+    CREATE INDEX IF NOT EXISTS sessions_address ON sessions (address);
+  `);
+  ensureColumn('sessions', 'role', "TEXT NOT NULL DEFAULT 'user'");
+  ensureColumn('sessions', 'claims', "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn('sessions', 'scopes', "TEXT NOT NULL DEFAULT '{}'");
+
+  const insert = db.prepare(`
+    INSERT INTO sessions (id, token_hash, user_id, address, chain_id, fid, role, claims, scopes, user_agent, ip, created_at, last_seen_at, expires_at)
+    VALUES (@id, @tokenHash, @userId, @address, @chainId, @fid, @role, @claims, @scopes, @userAgent, @ip, @createdAt, @lastSeenAt, @expiresAt)
+  `);
+  const selectByTokenHash = db.prepare<[string], SessionRow>('SELECT * FROM sessions WHERE token_hash = ?');
+  const update = db.prepare('UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?');
+  const remove = db.prepare('DELETE FROM sessions WHERE id = ?');
+  const selectByUser = db.prepare<[string], SessionRow>(
+    'SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at'
+  );
+  const removeByUser = db.prepare('DELETE FROM sessions WHERE user_id = ?');
+  const selectByAddress = db.prepare<[string], SessionRow>(
+    'SELECT * FROM sessions WHERE address = ? ORDER BY created_at'
+  );
+  const removeByAddress = db.prepare('DELETE FROM sessions WHERE address = ?');
+  const prune = db.prepare('DELETE FROM sessions WHERE expires_at <= ?');
+
+  return {
+    async create(session) {
+      insert.run({ ...session, claims: JSON.stringify(session.claims), scopes: JSON.stringify(session.scopes) });
+    },
+    async findByTokenHash(tokenHash) {
+      const row = selectByTokenHash.get(tokenHash);
+      return row ? fromRow(row) : null;
+    },
+    async touch(id, lastSeenAt, expiresAt) {
+      update.run(lastSeenAt, expiresAt, id);
+    },
+    async delete(id) {
+      return remove.run(id).changes === 1;
+    },
+    async listByUser(userId) {
+      return selectByUser.all(userId).map(fromRow);
+    },
+    async deleteByUser(userId) {
+      return removeByUser.run(userId).changes;
+    },
+    async listByAddress(address) {
+      return selectByAddress.all(address).map(fromRow);
+    },
+    async deleteByAddress(address) {
+      return removeByAddress.run(address).changes;
+    },
+    async pruneExpired(now) {
+      prune.run(now);
+    },
+  };
+}
+
+// Global backend using globalThis to persist across module reloads
+const globalForSessions = globalThis as unknown as {
+  sessionBackend: SessionBackend | undefined;
+};
+
+/**
+ * Get the configured session backend (created on first use from AUTH_STORE)
+ */
+export function getSessionBackend(): SessionBackend {
+  if (!globalForSessions.sessionBackend) {
+    globalForSessions.sessionBackend =
+      getAuthStoreKind() !== 'memory' ? createSqliteSessionBackend() : createMemorySessionBackend();
+  }
+  return globalForSessions.sessionBackend;
+}
+
+/**
+ * Replace the session backend
+ */
+export function setSessionBackend(backend: SessionBackend) {
+  globalForSessions.sessionBackend = backend;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Session fields for the credential a user signed in with
+ * Addresses are stored checksummed so lookups are case-insensitive
+ */
+export function describeSubject(
+  subject: SessionSubject
+): Pick<Session, 'userId' | 'address' | 'chainId' | 'fid' | 'role' | 'claims' | 'scopes'> {
+  return {
+    userId: subject.userId,
+    address: subject.address ? getAddress(subject.address) : null,
+    chainId: subject.chainId ?? null,
+    fid: subject.fid ?? null,
+    role: subject.role,
+    claims: subject.claims,
+    scopes: subject.scopes,
+  };
+}
+
+/**
+ * Mask the host part of an IP so the session list shows a rough location only
+ * IPv4 keeps the /24, IPv6 the /48
+ */
+function approximateIp(ip: string | null | undefined): string | null {
+  if (!ip || ip === 'unknown') {
+    return null;
+  }
+  if (ip.includes(':')) {
+    return `${ip.split(':').slice(0, 3).join(':')}::`;
+  }
+  const octets = ip.split('.');
+  return octets.length === 4 ? `${octets.slice(0, 3).join('.')}.0` : null;
+}
+
+// Long user agents are truncated; they are only shown to the user
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * Device fields as stored on a session
+ */
+export function describeClient(client: SessionClient): Pick<Session, 'userAgent' | 'ip'> {
+  return {
+    userAgent: client.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    ip: approximateIp(client.ip),
+  };
+}
+
+/**
+ * Create a session for a signed-in user
+ * @param subject - The user and the credential they signed in with
+ * @param client - Device and IP shown in the session list
+ * @returns the raw token (only returned here) and the stored session
+ */
+export async function createSession(
+  subject: SessionSubject,
+  client: SessionClient = {}
+): Promise<{ token: string; session: Session }> {
+  const backend = getSessionBackend();
+  const now = Date.now();
+  await backend.pruneExpired(now);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const session: Session = {
+    id: crypto.randomBytes(12).toString('hex'),
+    tokenHash: hashToken(token),
+    ...describeSubject(subject),
+    ...describeClient(client),
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+  await backend.create(session);
+
+  return { token, session };
+}
+
+/**
+ * Look up a session by token
+ * Expired sessions are deleted; with SESSION_SLIDING the expiry is pushed forward
+ * @returns the session, or null if the token is unknown or expired
+ */
+export async function getSession(token: string): Promise<Session | null> {
+  const backend = getSessionBackend();
+  const session = await backend.findByTokenHash(hashToken(token));
+  if (!session) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (now >= session.expiresAt) {
+    await backend.delete(session.id);
+    return null;
+  }
+
+  session.lastSeenAt = now;
+  if (process.env.SESSION_SLIDING === 'true') {
+    session.expiresAt = now + SESSION_TTL_MS;
+  }
+  await backend.touch(session.id, session.lastSeenAt, session.expiresAt);
+
+  return session;
+}
+
+/**
+ * Revoke the session a token belongs to
+ */
+export async function revokeSession(token: string): Promise<boolean> {
+  const backend = getSessionBackend();
+  const session = await backend.findByTokenHash(hashToken(token));
+  return session ? backend.delete(session.id) : false;
+}
+
+/**
+ * List a user's unexpired sessions
+ */
+export async function listSessions(userId: string): Promise<Session[]> {
+  const now = Date.now();
+  const sessions = await getSessionBackend().listByUser(userId);
+  return sessions.filter((session) => session.expiresAt > now);
+}
+
+/**
+ * Revoke one of a user's sessions by its public id
+ * @returns false if the session doesn't exist or belongs to another user
+ */
+export async function revokeSessionById(userId: string, id: string): Promise<boolean> {
+  const sessions = await listSessions(userId);
+  return sessions.some((session) => session.id === id) ? getSessionBackend().delete(id) : false;
+}
+
+/**
+ * Revoke every session for a user
+ * @returns number of sessions revoked
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  return getSessionBackend().deleteByUser(userId);
+}
+
+/**
+ * Revoke every session signed in with an address, whichever user it belongs to
+ * @returns number of sessions revoked
+ */
+export async function revokeSessionsByAddress(address: string): Promise<number> {
+  return getSessionBackend().deleteByAddress(getAddress(address));
+}
@@ -0,0 +1,340 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Errors, createClient } from '@farcaster/quick-auth';
+import {
+  verifyNonce,
+  consumeNonce,
+  readNonceCookie,
+  isNonceExpired,
+  NONCE_COOKIE,
+  nonceCookieOptions,
+} from './auth';
+import {
+  parseSiweMessage,
+  validateSiweMessage,
+  readScopeGrants,
+  getRequestHost,
+  SiweError,
+  type SiweMessage,
+} from './siwe';
+import type { ScopeGrants } from './recaps';
+import { SESSION_TTL_MS, type SessionSubject } from './sessions';
+import { startSession, getSessionClient } from './sessionCookie';
+import { resolveUser, type Identity, type User } from './identity';
+import { resolveRole } from './roleStore';
+import { evaluateClaims } from './claims';
+import { getPublicClient } from './chains';
+import { checkRateLimit, getClientIp, rateLimitedResponse, rateLimits } from './rateLimit';
+import { readJsonObject } from './requireSession';
+import { audit } from './audit';
+
+/**
+ * Sign-in Credentials
+ *
+ * Both ways of proving who a user is, shared by sign-in (/api/auth/session)
+ * and linking (/api/auth/link)
+ *
+ * Credentials:
+ * - SIWE: JSON body { address, message, signature } signed by the wallet
+ * - Farcaster Quick Auth: "Authorization: Bearer <token>" from the mini app SDK
+ *
+ * SIWE flow:
+ * 1. Parse the SIWE message and validate domain, URI, chain, timestamps and address,
+ *    and read the scopes its ReCap grants (EIP-5573, see lib/recaps.ts)
+ * 2. Check the nonce matches this browser's nonce cookie, then that it is valid and unused
+ *    (non-destructive check)
+ * 3. Verify signature using viem on the message's chain (supports ERC-6492 for undeployed wallets)
+ * 4. Consume nonce (only after successful verification)
+ *
+ * Quick Auth flow:
+ * - The JWT is verified against Farcaster's keys and must be issued for this host
+ * - Its subject is the user's FID
+ *
+ * Errors:
+ * - Failures return { error, code } where code is machine-readable
+ *   (e.g. DOMAIN_MISMATCH, MESSAGE_EXPIRED, INVALID_RECAP, INVALID_NONCE, INVALID_SIGNATURE,
+ *   INVALID_QUICK_AUTH_TOKEN)
+ * - Every failure is written to the audit log with that code
+ *
+ * Security:
+ * - Nonces can only be used once, only from the browser they were issued to,
+ *   and are consumed only after signature verification succeeds
+ * - Signatures are verified on the chain named in the message, which must be allowed
+ *   (SIWE_ALLOWED_CHAIN_IDS, see lib/chains.ts)
+ * - Rate limited per IP (both credentials) and per address (SIWE) before any network call
+ */
+
+export type Credential =
+  | { type: 'siwe'; identity: Extract<Identity, { type: 'address' }>; chainId: number; scopes: ScopeGrants }
+  | { type: 'farcaster'; identity: Extract<Identity, { type: 'fid' }> };
+
+export type CredentialResult = { ok: true; credential: Credential } | { ok: false; response: NextResponse };
+
+// Quick Auth client, created on first use
+let quickAuthClient: ReturnType<typeof createClient> | undefined;
+
+function getQuickAuthClient() {
+  quickAuthClient ??= createClient();
+  return quickAuthClient;
+}
+
+// jose errors for a malformed or forged token, which Quick Auth doesn't wrap in InvalidTokenError
+// (key fetch failures such as ERR_JWKS_TIMEOUT stay server errors)
+const INVALID_JWT_CODES = [
+  'ERR_JWS_INVALID',
+  'ERR_JWS_SIGNATURE_VERIFICATION_FAILED',
+  'ERR_JWKS_NO_MATCHING_KEY',
+  'ERR_JWKS_MULTIPLE_MATCHING_KEYS',
+  'ERR_JOSE_ALG_NOT_ALLOWED',
+  'ERR_JOSE_NOT_SUPPORTED',
+];
+
+function isInvalidTokenError(error: unknown): boolean {
+  return (
+    error instanceof Errors.InvalidTokenError ||
+    INVALID_JWT_CODES.includes((error as { code?: string } | null)?.code ?? '')
+  );
+}
+
+/**
+ * Audit a failed credential and build its response
+ */
+async function reject(
+  request: NextRequest,
+  error: string,
+  code: string,
+  status: number,
+  address?: string
+): Promise<CredentialResult> {
+  await audit({ event: 'verify.failed', outcome: 'failure', reason: code, address, request });
+  return { ok: false, response: NextResponse.json({ error, code }, { status }) };
+}
+
+async function rateLimitIp(request: NextRequest, route: string): Promise<CredentialResult | null> {
+  const ipLimit = await checkRateLimit(`verify:ip:${getClientIp(request)}`, rateLimits.verifyIp);
+  if (ipLimit.allowed) {
+    return null;
+  }
+  await audit({ event: 'rate_limited', outcome: 'failure', reason: 'RATE_LIMITED', request, details: { route } });
+  return { ok: false, response: rateLimitedResponse(ipLimit.retryAfterMs) };
+}
+
+/**
+ * Verify a SIWE message and signature
+ * @param body - Parsed request body
+ * @param route - Route name recorded with rate limit entries
+ */
+export async function verifySiweCredential(
+  request: NextRequest,
+  body: { address?: string; message?: string; signature?: string },
+  route = 'session'
+): Promise<CredentialResult> {
+  const limited = await rateLimitIp(request, route);
+  if (limited) {
+    return limited;
+  }
+
+  const { address, message, signature } = body;
+
+  // Validate request body
+  if (!address || !message || !signature) {
+    return reject(request, 'Missing required fields: address, message, signature', 'MISSING_FIELDS', 400, address);
+  }
+
+  // 1. Parse and validate the SIWE message against this request
+  let siwe: SiweMessage;
+  let scopes: ScopeGrants;
+  try {
+    siwe = parseSiweMessage(message);
+    validateSiweMessage(siwe, { host: getRequestHost(request), address });
+    scopes = readScopeGrants(siwe, getRequestHost(request));
+  } catch (error) {
+    if (error instanceof SiweError) {
+      const status = error.code === 'MALFORMED_MESSAGE' || error.code === 'INVALID_RECAP' ? 400 : 401;
+      return reject(request, error.message, error.code, status, address);
+    }
+    throw error;
+  }
+
+  const addressLimit = await checkRateLimit(`verify:address:${siwe.address.toLowerCase()}`, rateLimits.verifyAddress);
+  if (!addressLimit.allowed) {
+    await audit({
+      event: 'rate_limited',
+      outcome: 'failure',
+      reason: 'RATE_LIMITED',
+      address: siwe.address,
+      request,
+      details: { route },
+    });
+    return { ok: false, response: rateLimitedResponse(addressLimit.retryAfterMs) };
+  }
+
+  const { nonce } = siwe;
+
+  // 2. Nonce must be the one issued to this browser
+  const nonceCookie = readNonceCookie(request.cookies.get(NONCE_COOKIE)?.value);
+  if (!nonceCookie || nonceCookie.nonce !== nonce) {
+    return reject(request, 'Nonce was not issued to this browser', 'NONCE_COOKIE_MISMATCH', 401, siwe.address);
+  }
+
+  // Verify nonce exists (don't consume yet!)
+  if (!(await verifyNonce(nonce))) {
+    if (isNonceExpired(nonceCookie)) {
+      await audit({ event: 'nonce.expired', outcome: 'failure', reason: 'NONCE_EXPIRED', address: siwe.address, request });
+    }
+    return reject(request, 'Invalid, expired, or reused nonce', 'INVALID_NONCE', 401, siwe.address);
+  }
+
+  // 3. Verify signature using viem on the chain the message names
+  // This supports ERC-6492 for undeployed smart wallets
+  // validateSiweMessage already checked the chain is allowed
+  const publicClient = getPublicClient(siwe.chainId)!;
+  let isValid = false;
+  try {
+    isValid = await publicClient.verifyMessage({
+      address: siwe.address,
+      message,
+      signature: signature as `0x${string}`,
+    });
+  } catch (error) {
+    console.error('[Auth] Signature verification error:', error);
+    return reject(request, 'Signature verification failed', 'SIGNATURE_VERIFICATION_FAILED', 401, siwe.address);
+  }
+
+  if (!isValid) {
+    return reject(request, 'Invalid signature', 'INVALID_SIGNATURE', 401, siwe.address);
+  }
+
+  // 4. Consume nonce now that signature is verified
+  // Consume is atomic, so a concurrent request with the same nonce loses here
+  if (!(await consumeNonce(nonce))) {
+    return reject(request, 'Invalid, expired, or reused nonce', 'INVALID_NONCE', 401, siwe.address);
+  }
+
+  return {
+    ok: true,
+    credential: {
+      type: 'siwe',
+      identity: { type: 'address', address: siwe.address },
+      chainId: siwe.chainId,
+      scopes,
+    },
+  };
+}
+
+/**
+ * Verify a Farcaster Quick Auth token
+ * @param route - Route name recorded with rate limit entries
+ */
+export async function verifyQuickAuthCredential(
+  request: NextRequest,
+  token: string,
+  route = 'session'
+): Promise<CredentialResult> {
+  const limited = await rateLimitIp(request, route);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const payload = await getQuickAuthClient().verifyJwt({ token, domain: getRequestHost(request) });
+    return { ok: true, credential: { type: 'farcaster', identity: { type: 'fid', fid: Number(payload.sub) } } };
+  } catch (error) {
+    if (isInvalidTokenError(error)) {
+      return reject(request, 'Invalid or expired Quick Auth token', 'INVALID_QUICK_AUTH_TOKEN', 401);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verify whichever credential the request carries
+ * A Bearer token is a Quick Auth token; otherwise the JSON body must be a SIWE sign-in
+ */
+export async function readCredential(request: NextRequest, route = 'session'): Promise<CredentialResult> {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return verifyQuickAuthCredential(request, authorization.slice('Bearer '.length).trim(), route);
+  }
+
+  return verifySiweCredential(request, await readJsonObject(request), route);
+}
+
+/**
+ * Expire the spent nonce cookie after a SIWE credential was used
+ */
+export function clearNonceCookie(response: NextResponse) {
+  response.cookies.set(NONCE_COOKIE, '', { ...nonceCookieOptions, maxAge: 0 });
+}
+
+/**
+ * User fields returned to the client
+ */
+export function describeUser(user: User) {
+  return { userId: user.id, fid: user.fid, addresses: user.addresses };
+}
+
+/**
+ * Sign in with either credential: resolve (or create) the user, their role and
+ * onchain claims, start a session with the scopes the user granted and set cookies
+ */
+export async function signIn(request: NextRequest, route = 'session'): Promise<NextResponse> {
+  const result = await readCredential(request, route);
+  if (!result.ok) {
+    return result.response;
+  }
+
+  const { credential } = result;
+  const user = await resolveUser(credential.identity);
+  const role = await resolveRole(user.addresses);
+  const claims = await evaluateClaims(user.addresses);
+  const subject: SessionSubject =
+    credential.type === 'siwe'
+      ? {
+          userId: user.id,
+          role,
+          claims,
+          scopes: credential.scopes,
+          address: credential.identity.address,
+          chainId: credential.chainId,
+        }
+      : { userId: user.id, role, claims, scopes: {}, fid: credential.identity.fid };
+
+  // Create the session (or token family in stateless mode)
+  const started = await startSession(subject, getSessionClient(request));
+
+  await audit({
+    event: 'session.created',
+    outcome: 'success',
+    address: started.session.address,
+    request,
+    details: {
+      sessionId: started.session.id,
+      userId: user.id,
+      credential: credential.type,
+      chainId: started.session.chainId,
+      fid: started.session.fid,
+      role,
+      claims,
+      scopes: Object.keys(subject.scopes),
+    },
+  });
+
+  // Set session cookies (the token never reaches page scripts)
+  const response = NextResponse.json({
+    ...describeUser(user),
+    address: started.session.address,
+    chainId: started.session.chainId,
+    role,
+    claims,
+    scopes: subject.scopes,
+    expiresIn: SESSION_TTL_MS / 1000, // Return in seconds
+    // Stateless mode: client must call /api/auth/refresh before this time
+    ...(started.accessExpiresAt && { accessExpiresAt: started.accessExpiresAt }),
+  });
+  started.setCookies(response);
+  if (credential.type === 'siwe') {
+    clearNonceCookie(response);
+  }
+
+  return response;
+}
@@ -0,0 +1,321 @@
+import { getAddress, isAddress } from 'viem';
+import { createSiweMessage } from 'viem/siwe';
+import { getAllowedChainIds } from './chains';
+import {
+  RECAP_PREFIX,
+  decodeRecap,
+  encodeRecap,
+  isScope,
+  recapForScopes,
+  recapStatement,
+  type ScopeGrants,
+} from './recaps';
+import { getRequestOrigin } from './proxy';
+
+/**
+ * SIWE (EIP-4361) Message Parsing and Validation
+ *
+ * Parses the signed message line by line and validates it against the request
+ * Every failure carries a machine-readable code the client can explain
+ * Scoped permissions ride along as a ReCap resource (EIP-5573, see lib/recaps.ts)
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-4361
+ */
+
+export type SiweErrorCode =
+  | 'MALFORMED_MESSAGE'
+  | 'DOMAIN_MISMATCH'
+  | 'URI_MISMATCH'
+  | 'CHAIN_NOT_ALLOWED'
+  | 'INVALID_ISSUED_AT'
+  | 'MESSAGE_EXPIRED'
+  | 'MESSAGE_NOT_YET_VALID'
+  | 'ADDRESS_MISMATCH'
+  | 'INVALID_RECAP';
+
+export class SiweError extends Error {
+  constructor(
+    public readonly code: SiweErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: `0x${string}`;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+  requestId?: string;
+  resources?: string[];
+}
+
+// Allowed clock drift between wallet and server
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const RFC3339 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+function malformed(reason: string): never {
+  throw new SiweError('MALFORMED_MESSAGE', `Invalid SIWE message: ${reason}`);
+}
+
+function parseTimestamp(value: string, field: string): Date {
+  const date = new Date(value);
+  if (!RFC3339.test(value) || Number.isNaN(date.getTime())) {
+    malformed(`${field} is not an RFC 3339 timestamp`);
+  }
+  return date;
+}
+
+/**
+ * Parse an EIP-4361 message
+ * @param message - The raw message the wallet signed
+ * @throws SiweError with code MALFORMED_MESSAGE
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  // Header: [scheme://]domain wants you to sign in with your Ethereum account:
+  const header = lines[i++] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    malformed('missing header line');
+  }
+  let domain = header.slice(0, -HEADER_SUFFIX.length);
+  let scheme: string | undefined;
+  const schemeMatch = domain.match(/^([a-zA-Z][a-zA-Z0-9+\-.]*):\/\/(.*)$/);
+  if (schemeMatch) {
+    scheme = schemeMatch[1];
+    domain = schemeMatch[2];
+  }
+  if (!domain || /\s|\//.test(domain)) {
+    malformed('invalid domain');
+  }
+
+  // Address line
+  const address = lines[i++] ?? '';
+  if (!isAddress(address, { strict: false })) {
+    malformed('invalid address');
+  }
+
+  // Optional statement, surrounded by blank lines
+  while (lines[i] === '') i++;
+  let statement: string | undefined;
+  if (lines[i] !== undefined && !lines[i].startsWith('URI: ')) {
+    statement = lines[i++];
+    if (lines[i] !== '') {
+      malformed('statement must be a single line');
+    }
+    while (lines[i] === '') i++;
+  }
+
+  // Fields in the order the spec defines them
+  const readField = (label: string, required: boolean): string | undefined => {
+    const line = lines[i];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      i++;
+      return line.slice(label.length + 2);
+    }
+    if (required) {
+      malformed(`missing ${label}`);
+    }
+    return undefined;
+  };
+
+  const uri = readField('URI', true)!;
+  const version = readField('Version', true)!;
+  const chainId = readField('Chain ID', true)!;
+  const nonce = readField('Nonce', true)!;
+  const issuedAt = readField('Issued At', true)!;
+  const expirationTime = readField('Expiration Time', false);
+  const notBefore = readField('Not Before', false);
+  const requestId = readField('Request ID', false);
+
+  let resources: string[] | undefined;
+  if (lines[i] === 'Resources:') {
+    i++;
+    resources = [];
+    while (lines[i]?.startsWith('- ')) {
+      resources.push(lines[i++].slice(2));
+    }
+  }
+
+  while (lines[i] === '') i++;
+  if (i < lines.length) {
+    malformed(`unexpected line "${lines[i]}"`);
+  }
+
+  try {
+    new URL(uri);
+  } catch {
+    malformed('URI is not a valid URI');
+  }
+  if (version !== '1') {
+    malformed(`unsupported version ${version}`);
+  }
+  if (!/^[1-9]\d*$/.test(chainId)) {
+    malformed('invalid Chain ID');
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce)) {
+    malformed('nonce must be at least 8 alphanumeric characters');
+  }
+
+  return {
+    scheme,
+    domain,
+    address: address as `0x${string}`,
+    statement,
+    uri,
+    version: '1',
+    chainId: Number(chainId),
+    nonce,
+    issuedAt: parseTimestamp(issuedAt, 'Issued At'),
+    expirationTime: expirationTime ? parseTimestamp(expirationTime, 'Expiration Time') : undefined,
+    notBefore: notBefore ? parseTimestamp(notBefore, 'Not Before') : undefined,
+    requestId,
+    resources,
+  };
+}
+
+interface ValidateOptions {
+  /** Host the request was served from, e.g. "localhost:3000" */
+  host: string;
+  /** Address the client claims signed the message */
+  address: string;
+  allowedChainIds?: number[];
+  now?: Date;
+}
+
+/**
+ * Validate a parsed message against the incoming request
+ * @throws SiweError with the code of the first failed check
+ */
+export function validateSiweMessage(siwe: SiweMessage, options: ValidateOptions) {
+  const { host, address, allowedChainIds = getAllowedChainIds(), now = new Date() } = options;
+
+  if (siwe.domain.toLowerCase() !== host.toLowerCase()) {
+    throw new SiweError('DOMAIN_MISMATCH', `Message domain ${siwe.domain} does not match ${host}`);
+  }
+
+  if (new URL(siwe.uri).host.toLowerCase() !== host.toLowerCase()) {
+    throw new SiweError('URI_MISMATCH', `Message URI ${siwe.uri} does not match ${host}`);
+  }
+
+  if (!allowedChainIds.includes(siwe.chainId)) {
+    throw new SiweError('CHAIN_NOT_ALLOWED', `Chain ${siwe.chainId} is not allowed`);
+  }
+
+  if (siwe.issuedAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new SiweError('INVALID_ISSUED_AT', 'Message was issued in the future');
+  }
+
+  if (siwe.expirationTime && siwe.expirationTime.getTime() <= now.getTime()) {
+    throw new SiweError('MESSAGE_EXPIRED', 'Message has expired');
+  }
+
+  if (siwe.notBefore && siwe.notBefore.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new SiweError('MESSAGE_NOT_YET_VALID', 'Message is not valid yet');
+  }
+
+  if (!isAddress(address, { strict: false }) || getAddress(address) !== getAddress(siwe.address)) {
+    throw new SiweError('ADDRESS_MISMATCH', 'Message address does not match the signing address');
+  }
+}
+
+/**
+ * Scopes granted by the message's ReCap (EIP-5573), or none without one
+ *
+ * The ReCap must be the last resource, may only name resources on this host, and
+ * the statement must end with its text so the user saw what they granted.
+ * Abilities this app doesn't know are ignored; each scope keeps its first caveat.
+ * @throws SiweError with code INVALID_RECAP
+ */
+export function readScopeGrants(siwe: SiweMessage, host: string): ScopeGrants {
+  const resources = siwe.resources ?? [];
+  const recaps = resources.filter((resource) => resource.startsWith(RECAP_PREFIX));
+  if (recaps.length === 0) {
+    return {};
+  }
+  if (recaps.length > 1 || resources[resources.length - 1] !== recaps[0]) {
+    throw new SiweError('INVALID_RECAP', 'A ReCap must be the only one and the last resource');
+  }
+
+  let att;
+  try {
+    ({ att } = decodeRecap(recaps[0]));
+  } catch (error) {
+    throw new SiweError('INVALID_RECAP', `Invalid ReCap: ${(error as Error).message}`);
+  }
+
+  if (!siwe.statement?.endsWith(recapStatement(att))) {
+    throw new SiweError('INVALID_RECAP', 'Statement does not describe the requested capabilities');
+  }
+
+  const grants: ScopeGrants = {};
+  for (const [resource, abilities] of Object.entries(att)) {
+    let resourceHost: string;
+    try {
+      resourceHost = new URL(resource).host;
+    } catch {
+      throw new SiweError('INVALID_RECAP', `ReCap resource ${resource} is not a URL`);
+    }
+    if (resourceHost.toLowerCase() !== host.toLowerCase()) {
+      throw new SiweError('INVALID_RECAP', `ReCap resource ${resource} does not belong to ${host}`);
+    }
+    for (const [ability, caveats] of Object.entries(abilities)) {
+      if (isScope(ability)) {
+        grants[ability] = caveats[0] ?? {};
+      }
+    }
+  }
+  return grants;
+}
+
+/**
+ * Host the request was addressed to (APP_URL when set, see lib/proxy.ts)
+ */
+export function getRequestHost(request: Request): string {
+  return getRequestOrigin(request).host;
+}
+
+/**
+ * Sign-in message for a wallet that only signs plain messages (personal_sign),
+ * e.g. an injected wallet; Base Account builds its own through wallet_connect
+ * @param origin - Origin the app is served from (domain, URI and ReCap resource)
+ * @param scopes - Permissions to request as a ReCap on this origin
+ */
+export function createSignInMessage({
+  address,
+  chainId,
+  nonce,
+  origin,
+  scopes = {},
+}: {
+  address: `0x${string}`;
+  chainId: number;
+  nonce: string;
+  origin: string;
+  scopes?: ScopeGrants;
+}): string {
+  const recap = Object.keys(scopes).length > 0 ? recapForScopes(origin, scopes) : null;
+  return createSiweMessage({
+    domain: new URL(origin).host,
+    uri: origin,
+    version: '1',
+    chainId,
+    address,
+    nonce,
+    issuedAt: new Date(),
+    ...(recap && { statement: recapStatement(recap), resources: [encodeRecap(recap)] }),
+  });
+}
@@ -0,0 +1,185 @@
+import { formatUnits, getAddress, isAddress, type Address } from 'viem';
+import { parseCsv, toCsv } from './csv';
+import { MAX_RECIPIENTS, newRecipient, recipientName, type RecipientRow } from './recipients';
+import { parseSplitValue, type SplitMode } from './splits';
+import type { SplitToken } from './splitTokens';
+
+/**
+ * Split CSV
+ *
+ * Import and export of recipient lists, and export of completed splits
+ *
+ * Import columns: recipient (address, ENS name or Basename), value (percentage,
+ * share or amount, per the split mode; ignored for equal splits), optional
+ * label. A header row is detected and skipped, and extra columns are ignored,
+ * so an exported list imports back as-is.
+ *
+ * Every line gets a result in the report. Lines with a bad address, a name
+ * that doesn't resolve, a duplicate or a value in the wrong format are left
+ * out; the rest become rows with their names already resolved and pinned.
+ */
+
+export type CsvImportError =
+  | 'INVALID_ADDRESS'
+  | 'UNRESOLVED'
+  | 'DUPLICATE'
+  | 'INVALID_VALUE'
+  | 'TOO_MANY';
+
+export interface CsvImportLine {
+  /** Line in the file (1-based) */
+  line: number;
+  /** Recipient as written */
+  recipient: string;
+  /** null when the line was imported */
+  error: CsvImportError | null;
+  message: string;
+}
+
+export interface CsvImportResult {
+  /** Valid lines as recipient rows, in file order */
+  rows: RecipientRow[];
+  /** One entry per line read (the header excluded) */
+  report: CsvImportLine[];
+}
+
+export interface CsvImportOptions {
+  mode: SplitMode;
+  /** Decimals of the split token, for fixed amounts */
+  decimals: number;
+  /** Look up an ENS name / Basename; null when it has no address */
+  resolveName: (name: string) => Promise<Address | null>;
+  maxRecipients?: number;
+}
+
+/** A split that went through, as exported */
+export interface CompletedSplit {
+  txHash: string;
+  token: SplitToken;
+  recipients: { address: Address; name?: string; label?: string; amount: bigint }[];
+  completedAt: number;
+}
+
+const HEADER = /^(recipient|address|name|wallet)$/i;
+
+const VALUE_NAMES: Record<SplitMode, string> = {
+  equal: 'value',
+  percentage: 'percentage',
+  shares: 'share',
+  fixed: 'amount',
+};
+
+/**
+ * Read a recipient list from CSV text
+ * @throws Error if the text isn't valid CSV
+ */
+export async function importRecipientCsv(
+  text: string,
+  { mode, decimals, resolveName, maxRecipients = MAX_RECIPIENTS }: CsvImportOptions
+): Promise<CsvImportResult> {
+  const lines = parseCsv(text);
+  if (lines.length > 0 && HEADER.test(lines[0].cells[0].trim())) {
+    lines.shift();
+  }
+
+  // Each name is looked up once, however often it appears
+  const names = new Set<string>();
+  for (const { cells } of lines) {
+    const name = isAddress(cells[0].trim()) ? null : recipientName(cells[0]);
+    if (name) names.add(name);
+  }
+  const resolved = new Map<string, Address | null>();
+  await Promise.all(
+    [...names].map(async (name) => {
+      const address = await resolveName(name).catch(() => null);
+      resolved.set(name, address ? getAddress(address) : null);
+    })
+  );
+
+  const rows: RecipientRow[] = [];
+  const seen = new Map<Address, number>();
+  const report = lines.map(({ line, cells }): CsvImportLine => {
+    const recipient = cells[0].trim();
+    const value = cells[1]?.trim() ?? '';
+    const label = cells[2]?.trim() ?? '';
+    const fail = (error: CsvImportError, message: string): CsvImportLine => ({ line, recipient, error, message });
+
+    let address: Address;
+    const name = isAddress(recipient) ? null : recipientName(recipient);
+    if (isAddress(recipient)) {
+      address = getAddress(recipient);
+    } else if (!name) {
+      return fail('INVALID_ADDRESS', recipient ? 'Not a valid address or name' : 'Missing recipient');
+    } else {
+      const target = resolved.get(name);
+      if (!target) {
+        return fail('UNRESOLVED', `${name} doesn't resolve to an address`);
+      }
+      address = target;
+    }
+
+    const firstLine = seen.get(address);
+    if (firstLine !== undefined) {
+      return fail('DUPLICATE', `Same recipient as line ${firstLine}`);
+    }
+
+    if (mode !== 'equal') {
+      const parsed = parseSplitValue(mode, value, decimals);
+      if (parsed === null || parsed === BigInt(0)) {
+        return fail('INVALID_VALUE', value ? `"${value}" is not a valid ${VALUE_NAMES[mode]}` : `Missing ${VALUE_NAMES[mode]}`);
+      }
+    }
+
+    if (rows.length >= maxRecipients) {
+      return fail('TOO_MANY', `A split can have at most ${maxRecipients} recipients`);
+    }
+
+    seen.set(address, line);
+    const row = newRecipient(recipient, mode === 'equal' ? '' : value);
+    rows.push({
+      ...row,
+      ...(name && { resolved: { name, address } }),
+      ...(label && { label }),
+    });
+    return { line, recipient, error: null, message: name ? `Imported (${address})` : 'Imported' };
+  });
+
+  return { rows, report };
+}
+
+/**
+ * The recipient list as CSV, in the format importRecipientCsv reads
+ */
+export function exportRecipientCsv(rows: RecipientRow[], mode: SplitMode): string {
+  return toCsv([
+    ['recipient', VALUE_NAMES[mode], 'label', 'address'],
+    ...rows.map((row) => [
+      row.address.trim(),
+      mode === 'equal' ? '' : row.value.trim(),
+      row.label,
+      isAddress(row.address.trim()) ? getAddress(row.address.trim()) : row.resolved?.address,
+    ]),
+  ]);
+}
+
+/**
+ * Completed splits as CSV, one line per payment
+ */
+export function exportSplitsCsv(splits: CompletedSplit[]): string {
+  return toCsv([
+    ['completed_at', 'tx_hash', 'token', 'token_address', 'recipient', 'name', 'label', 'amount', 'amount_base_units'],
+    ...splits.flatMap((split) =>
+      split.recipients.map((recipient) => [
+        new Date(split.completedAt).toISOString(),
+        split.txHash,
+        split.token.symbol,
+        split.token.address,
+        recipient.address,
+        recipient.name,
+        recipient.label,
+        formatUnits(recipient.amount, split.token.decimals),
+        recipient.amount,
+      ])
+    ),
+  ]);
+}
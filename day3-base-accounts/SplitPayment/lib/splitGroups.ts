@@ -0,0 +1,361 @@
+import crypto from 'crypto';
+import { getAddress, isAddress } from 'viem';
+import { getDb } from './db';
+import { MAX_RECIPIENTS, recipientName } from './recipients';
+import { checkSplitValues, isSplitMode, parseAmount, type SplitMode } from './splits';
+import type { SplitToken } from './splitTokens';
+
+/**
+ * Saved Split Groups
+ *
+ * Named splits ("house rent", "dev team") a user can load back into the form:
+ * recipients, their values, the split mode, an optional total and the token.
+ *
+ * Groups belong to the wallet address the session signed in with, not to the
+ * user: a group is a payout made from that wallet, and the passkey step-up
+ * guarding changes to it is registered per address too (lib/passkeys.ts). A user
+ * with several linked wallets sees the groups of the one they signed in with,
+ * and a wallet's groups stay with it if users are merged.
+ *
+ * Recipients are kept as entered (addresses checksummed, names normalized);
+ * names are resolved again and pinned when a group is loaded, never when saved.
+ * Token symbol and decimals are kept for display and for checking fixed
+ * amounts; the form reads them onchain again on load.
+ *
+ * Groups are kept in the local SQLite database (lib/db.ts), so they survive
+ * restarts and need no external service; AUTH_STORE=memory keeps them in
+ * memory instead (tests, throwaway demos).
+ *
+ * Configuration:
+ * - MAX_SPLIT_GROUPS: groups per address (default: 50)
+ */
+
+export const MAX_SPLIT_GROUPS = Number(process.env.MAX_SPLIT_GROUPS) || 50;
+
+const NAME_MAX_LENGTH = 64;
+const LABEL_MAX_LENGTH = 64;
+
+export interface SplitGroupRecipient {
+  /** Checksummed address or normalized name */
+  recipient: string;
+  /** Percentage, share or amount, per the mode ('' for equal splits) */
+  value: string;
+  label?: string;
+}
+
+export interface SplitGroupInput {
+  name: string;
+  mode: SplitMode;
+  /** Decimal total for equal, percentage and share splits ('' to enter it each time) */
+  total: string;
+  token: SplitToken;
+  recipients: SplitGroupRecipient[];
+}
+
+export interface SplitGroup extends SplitGroupInput {
+  id: string;
+  /** Owner: the wallet the group was saved from */
+  address: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SplitGroupStore {
+  listByAddress(address: string): Promise<SplitGroup[]>;
+  get(id: string): Promise<SplitGroup | null>;
+  /** Insert or replace by id */
+  save(group: SplitGroup): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type SplitGroupCheck = { ok: true; group: SplitGroupInput } | { ok: false; error: string };
+
+function cloneGroup(group: SplitGroup): SplitGroup {
+  return {
+    ...group,
+    token: { ...group.token },
+    recipients: group.recipients.map((recipient) => ({ ...recipient })),
+  };
+}
+
+/**
+ * In-memory store
+ */
+export function createMemorySplitGroupStore(): SplitGroupStore {
+  const groups = new Map<string, SplitGroup>();
+
+  return {
+    async listByAddress(address) {
+      return Array.from(groups.values())
+        .filter((group) => group.address === address)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(cloneGroup);
+    },
+    async get(id) {
+      const group = groups.get(id);
+      return group ? cloneGroup(group) : null;
+    },
+    async save(group) {
+      groups.set(group.id, cloneGroup(group));
+    },
+    async delete(id) {
+      return groups.delete(id);
+    },
+  };
+}
+
+interface SplitGroupRow {
+  id: string;
+  address: string;
+  name: string;
+  mode: SplitMode;
+  total: string;
+  token: string;
+  recipients: string;
+  created_at: number;
+  updated_at: number;
+}
+
+function fromRow(row: SplitGroupRow): SplitGroup {
+  return {
+    id: row.id,
+    address: row.address,
+    name: row.name,
+    mode: row.mode,
+    total: row.total,
+    token: JSON.parse(row.token),
+    recipients: JSON.parse(row.recipients),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQLite store
+ */
+export function createSqliteSplitGroupStore(): SplitGroupStore {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS split_groups (
+      id TEXT PRIMARY KEY,
+      address TEXT NOT NULL,
+      name TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      total TEXT NOT NULL DEFAULT '',
+      token TEXT NOT NULL,
+      recipients TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS split_groups_address ON split_groups (address);
+  `);
+
+  const selectByAddress = db.prepare<[string], SplitGroupRow>(
+    'SELECT * FROM split_groups WHERE address = ? ORDER BY created_at'
+  );
+  const select = db.prepare<[string], SplitGroupRow>('SELECT * FROM split_groups WHERE id = ?');
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO split_groups (id, address, name, mode, total, token, recipients, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const remove = db.prepare('DELETE FROM split_groups WHERE id = ?');
+
+  return {
+    async listByAddress(address) {
+      return selectByAddress.all(address).map(fromRow);
+    },
+    async get(id) {
+      const row = select.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async save(group) {
+      upsert.run(
+        group.id,
+        group.address,
+        group.name,
+        group.mode,
+        group.total,
+        JSON.stringify(group.token),
+        JSON.stringify(group.recipients),
+        group.createdAt,
+        group.updatedAt
+      );
+    },
+    async delete(id) {
+      return remove.run(id).changes === 1;
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForSplitGroups = globalThis as unknown as {
+  splitGroupStore: SplitGroupStore | undefined;
+};
+
+/**
+ * Get the split group store (SQLite unless AUTH_STORE=memory)
+ */
+export function getSplitGroupStore(): SplitGroupStore {
+  if (!globalForSplitGroups.splitGroupStore) {
+    globalForSplitGroups.splitGroupStore =
+      process.env.AUTH_STORE === 'memory' ? createMemorySplitGroupStore() : createSqliteSplitGroupStore();
+  }
+  return globalForSplitGroups.splitGroupStore;
+}
+
+/**
+ * Replace the split group store
+ */
+export function setSplitGroupStore(store: SplitGroupStore) {
+  globalForSplitGroups.splitGroupStore = store;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function checkToken(value: unknown): SplitToken | null {
+  const { address, symbol, decimals } = (value ?? {}) as Record<string, unknown>;
+  if (address !== null && !(isString(address) && isAddress(address))) {
+    return null;
+  }
+  if (!isString(symbol) || !symbol.trim() || symbol.length > 32) {
+    return null;
+  }
+  if (!Number.isInteger(decimals) || (decimals as number) < 0 || (decimals as number) > 36) {
+    return null;
+  }
+  return { address: address === null ? null : getAddress(address), symbol: symbol.trim(), decimals: decimals as number };
+}
+
+/**
+ * Validate a group sent by the client
+ * @returns the group, cleaned up for storage, or why it was rejected
+ */
+export function checkSplitGroup(body: unknown): SplitGroupCheck {
+  const { name, mode, total, token, recipients } = (body ?? {}) as Record<string, unknown>;
+
+  if (!isString(name) || !name.trim() || name.trim().length > NAME_MAX_LENGTH) {
+    return { ok: false, error: `Name the group (up to ${NAME_MAX_LENGTH} characters)` };
+  }
+  if (!isSplitMode(mode)) {
+    return { ok: false, error: 'Unknown split mode' };
+  }
+  const splitToken = checkToken(token);
+  if (!splitToken) {
+    return { ok: false, error: 'Invalid token' };
+  }
+  if (!Array.isArray(recipients) || recipients.length === 0 || recipients.length > MAX_RECIPIENTS) {
+    return { ok: false, error: `A group needs 1 to ${MAX_RECIPIENTS} recipients` };
+  }
+
+  const seen = new Set<string>();
+  const saved: SplitGroupRecipient[] = [];
+  for (const [index, entry] of recipients.entries()) {
+    const { recipient, value, label } = (entry ?? {}) as Record<string, unknown>;
+    const trimmed = isString(recipient) ? recipient.trim() : '';
+    const key = isAddress(trimmed) ? getAddress(trimmed) : recipientName(trimmed);
+    if (!key) {
+      return { ok: false, error: `Recipient ${index + 1} is not a valid address or name` };
+    }
+    if (seen.has(key)) {
+      return { ok: false, error: `Recipient ${index + 1} is already in the group` };
+    }
+    if (label !== undefined && (!isString(label) || label.length > LABEL_MAX_LENGTH)) {
+      return { ok: false, error: `Label ${index + 1} is too long` };
+    }
+    seen.add(key);
+    saved.push({
+      recipient: key,
+      value: mode === 'equal' || !isString(value) ? '' : value.trim(),
+      ...(isString(label) && label.trim() && { label: label.trim() }),
+    });
+  }
+
+  const values = checkSplitValues(mode, saved.map((recipient) => recipient.value), splitToken.decimals);
+  if (!values.ok) {
+    return { ok: false, error: values.message };
+  }
+
+  const savedTotal = mode === 'fixed' || !isString(total) ? '' : total.trim();
+  if (savedTotal && !parseAmount(savedTotal, splitToken.decimals)) {
+    return { ok: false, error: 'Total must be a number greater than 0' };
+  }
+
+  return {
+    ok: true,
+    group: { name: name.trim(), mode, total: savedTotal, token: splitToken, recipients: saved },
+  };
+}
+
+/**
+ * Whether two versions of a group pay out the same: token, mode, total and each
+ * recipient's value (in any order); only the name and labels may differ
+ */
+export function samePayout(a: SplitGroupInput, b: SplitGroupInput): boolean {
+  const payouts = (group: SplitGroupInput) =>
+    group.recipients.map(({ recipient, value }) => `${recipient}=${value}`).sort().join();
+  return (
+    a.token.address === b.token.address &&
+    a.mode === b.mode &&
+    a.total === b.total &&
+    payouts(a) === payouts(b)
+  );
+}
+
+/**
+ * The address's groups, oldest first
+ */
+export function listSplitGroups(address: string): Promise<SplitGroup[]> {
+  return getSplitGroupStore().listByAddress(address);
+}
+
+/**
+ * One of the address's groups
+ * @returns null if it doesn't exist or belongs to another address
+ */
+export async function getSplitGroup(address: string, id: string): Promise<SplitGroup | null> {
+  const group = await getSplitGroupStore().get(id);
+  return group?.address === address ? group : null;
+}
+
+/**
+ * Save a new group for an address
+ */
+export async function createSplitGroup(address: string, input: SplitGroupInput): Promise<SplitGroup> {
+  const now = Date.now();
+  const group: SplitGroup = {
+    ...input,
+    id: crypto.randomBytes(12).toString('hex'),
+    address,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getSplitGroupStore().save(group);
+  return group;
+}
+
+/**
+ * Replace a group's contents, keeping its id and owner
+ */
+export async function updateSplitGroup(group: SplitGroup, input: SplitGroupInput): Promise<SplitGroup> {
+  const updated: SplitGroup = { ...group, ...input, updatedAt: Date.now() };
+  await getSplitGroupStore().save(updated);
+  return updated;
+}
+
+/**
+ * Delete one of the address's groups
+ * @returns false if there was no such group
+ */
+export async function deleteSplitGroup(address: string, id: string): Promise<boolean> {
+  return (await getSplitGroup(address, id)) !== null && getSplitGroupStore().delete(id);
+}
+
+/**
+ * Whether a name is already used by another of the address's groups
+ */
+export function isNameTaken(groups: SplitGroup[], name: string, exceptId?: string): boolean {
+  const lower = name.toLowerCase();
+  return groups.some((group) => group.id !== exceptId && group.name.toLowerCase() === lower);
+}
@@ -0,0 +1,141 @@
+import {
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  isAddress,
+  numberToHex,
+  parseUnits,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+
+/**
+ * Split Tokens
+ *
+ * What a split pays out in: native ETH or an ERC-20 token. Token symbol and
+ * decimals are read onchain, never taken from user input, so amounts are
+ * always parsed with the token's real decimals.
+ *
+ * A split is one call per recipient:
+ * - ETH: { to: recipient, value: amount, data: 0x }
+ * - ERC-20: { to: token, value: 0, data: transfer(recipient, amount) }
+ * The same calls go into a wallet_sendCalls batch or, for wallets without
+ * batching, one transaction each.
+ *
+ * Large splits: each token can have a limit above which a split needs extra
+ * confirmation (see splitSize). Tokens without one can't be valued here; their
+ * splits are "unpriced" rather than refused.
+ *
+ * Configuration:
+ * - NEXT_PUBLIC_LARGE_SPLIT_LIMITS: "<native|token address>:<amount>" pairs,
+ *   comma-separated, e.g. "native:0.5,0xabc...:1000" (added to the defaults:
+ *   0.1 ETH and 250 USDC)
+ */
+
+// USDC on Base Sepolia
+export const USDC_ADDRESS: Address = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+export interface SplitToken {
+  /** Token contract, or null for native ETH */
+  address: Address | null;
+  symbol: string;
+  decimals: number;
+}
+
+export const ETH: SplitToken = { address: null, symbol: 'ETH', decimals: 18 };
+
+/** Decimal limit per token: 'native' for ETH, lowercase addresses for ERC-20s */
+export type TokenLimits = Record<string, string>;
+
+export type SplitSize = 'small' | 'large' | 'unpriced';
+
+const DEFAULT_LARGE_SPLIT_LIMITS: TokenLimits = {
+  native: '0.1',
+  [USDC_ADDRESS.toLowerCase()]: '250',
+};
+
+/**
+ * Parse "<native|address>:<amount>" pairs on top of the given limits
+ * Entries with a bad key or amount are skipped
+ */
+export function parseTokenLimits(value: string | undefined, defaults: TokenLimits = {}): TokenLimits {
+  const limits = { ...defaults };
+  for (const entry of (value ?? '').split(',')) {
+    const [key, amount] = entry.split(':').map((part) => part.trim());
+    if ((key === 'native' || isAddress(key, { strict: false })) && /^\d+(\.\d+)?$/.test(amount ?? '')) {
+      limits[key.toLowerCase()] = amount;
+    }
+  }
+  return limits;
+}
+
+export const LARGE_SPLIT_LIMITS = parseTokenLimits(
+  process.env.NEXT_PUBLIC_LARGE_SPLIT_LIMITS,
+  DEFAULT_LARGE_SPLIT_LIMITS
+);
+
+/**
+ * The token's large-split limit, or null if it has none
+ */
+export function largeSplitLimit(token: SplitToken, limits: TokenLimits = LARGE_SPLIT_LIMITS): string | null {
+  return limits[token.address?.toLowerCase() ?? 'native'] ?? null;
+}
+
+/**
+ * Whether a split's total (in base units) is over its token's limit
+ * @returns 'unpriced' for tokens without a limit
+ */
+export function splitSize(token: SplitToken, total: bigint, limits: TokenLimits = LARGE_SPLIT_LIMITS): SplitSize {
+  const limit = largeSplitLimit(token, limits);
+  if (limit === null) {
+    return 'unpriced';
+  }
+  return total > parseUnits(limit, token.decimals) ? 'large' : 'small';
+}
+
+/** The reads used here; any chain's public client has them */
+export type TokenReader = Pick<PublicClient, 'readContract' | 'getBalance'>;
+
+export interface SplitCall {
+  to: Address;
+  value: Hex;
+  data: Hex;
+}
+
+/**
+ * Read an ERC-20 token's symbol and decimals
+ * @throws if the address isn't an ERC-20 token on the client's chain
+ */
+export async function readToken(client: TokenReader, address: string): Promise<SplitToken> {
+  const token = getAddress(address);
+  const [symbol, decimals] = await Promise.all([
+    client.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+    client.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+  return { address: token, symbol, decimals };
+}
+
+/**
+ * Balance of an address in the token's base units
+ */
+export function readBalance(client: TokenReader, token: SplitToken, owner: Address): Promise<bigint> {
+  return token.address
+    ? client.readContract({ address: token.address, abi: erc20Abi, functionName: 'balanceOf', args: [owner] })
+    : client.getBalance({ address: owner });
+}
+
+/**
+ * One call per recipient paying amounts[i] to recipients[i]
+ */
+export function buildSplitCalls(token: SplitToken, recipients: Address[], amounts: bigint[]): SplitCall[] {
+  return recipients.map((to, i) =>
+    token.address
+      ? {
+          to: token.address,
+          value: numberToHex(0),
+          data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amounts[i]] }),
+        }
+      : { to, value: numberToHex(amounts[i]), data: '0x' }
+  );
+}
@@ -0,0 +1,186 @@
+import { formatUnits, parseUnits } from 'viem';
+
+/**
+ * Split Calculator
+ *
+ * Turns a split mode and per-recipient values into exact amounts in base units
+ * (wei for ETH). All math is bigint, so the amounts always add up to the total.
+ * Shared by the split form and the server (saved splits, reports).
+ *
+ * Modes:
+ * - equal: a total divided evenly; values are ignored
+ * - percentage: a total divided by percentages (up to 2 decimals) summing to 100
+ * - shares: a total divided in proportion to positive shares, e.g. 2:1:1
+ * - fixed: each value is the recipient's amount; the total is their sum
+ *
+ * Rounding: every recipient gets floor(total * weight / sum of weights); the
+ * units left over (fewer than the number of recipients) go one each to the
+ * largest fractional parts, ties to the earlier recipient, so the same input
+ * always splits the same way.
+ */
+
+export const SPLIT_MODES = ['equal', 'percentage', 'shares', 'fixed'] as const;
+
+export type SplitMode = (typeof SPLIT_MODES)[number];
+
+export interface SplitInput {
+  mode: SplitMode;
+  /** Decimal total, e.g. "0.3" (ignored in fixed mode) */
+  total?: string;
+  /** One per recipient: percentage, share or amount depending on the mode */
+  values: string[];
+  /** Token decimals (18 for ETH) */
+  decimals: number;
+}
+
+export type SplitErrorCode =
+  | 'NO_RECIPIENTS'
+  | 'INVALID_TOTAL'
+  | 'INVALID_VALUE'
+  | 'PERCENTAGES_NOT_100'
+  | 'ZERO_AMOUNT';
+
+export interface SplitError {
+  ok: false;
+  code: SplitErrorCode;
+  message: string;
+  /** Recipient the error is about */
+  index?: number;
+}
+
+export type SplitResult = { ok: true; amounts: bigint[]; total: bigint } | SplitError;
+
+export type SplitValuesResult = { ok: true; values: bigint[] } | SplitError;
+
+// Percentages are counted in hundredths, so 100% is 10000
+const PERCENT_DECIMALS = 2;
+const HUNDRED_PERCENT = BigInt(10000);
+
+// Shares may have decimals; this many are kept
+const SHARE_DECIMALS = 6;
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+export function isSplitMode(value: unknown): value is SplitMode {
+  return SPLIT_MODES.includes(value as SplitMode);
+}
+
+/**
+ * Parse a non-negative decimal into base units
+ * @returns null if it isn't a plain decimal or has more decimals than allowed
+ */
+export function parseAmount(value: string, decimals: number): bigint | null {
+  const trimmed = value.trim();
+  if (!DECIMAL.test(trimmed) || (trimmed.split('.')[1]?.length ?? 0) > decimals) {
+    return null;
+  }
+  return parseUnits(trimmed, decimals);
+}
+
+/**
+ * Parse one recipient's value for a mode: a percentage in hundredths, a share,
+ * or a fixed amount in base units
+ * @returns null if it isn't valid for the mode (equal mode takes no value)
+ */
+export function parseSplitValue(mode: SplitMode, value: string, decimals: number): bigint | null {
+  switch (mode) {
+    case 'percentage':
+      return parseAmount(value, PERCENT_DECIMALS);
+    case 'shares':
+      return parseAmount(value, SHARE_DECIMALS);
+    case 'fixed':
+      return parseAmount(value, decimals);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Divide a total by weights, handing out the remainder deterministically
+ */
+export function allocate(total: bigint, weights: bigint[]): bigint[] {
+  const sum = weights.reduce((a, b) => a + b, BigInt(0));
+  const amounts = weights.map((weight) => (total * weight) / sum);
+  let left = total - amounts.reduce((a, b) => a + b, BigInt(0));
+
+  const byFraction = weights
+    .map((weight, index) => ({ index, fraction: (total * weight) % sum }))
+    .sort((a, b) => (a.fraction === b.fraction ? a.index - b.index : a.fraction > b.fraction ? -1 : 1));
+  for (const { index } of byFraction) {
+    if (left === BigInt(0)) break;
+    amounts[index] += BigInt(1);
+    left -= BigInt(1);
+  }
+  return amounts;
+}
+
+/**
+ * Check the per-recipient values for a mode, without a total (e.g. a saved split)
+ * @returns the parsed values: weights, or amounts in fixed mode
+ */
+export function checkSplitValues(mode: SplitMode, values: string[], decimals: number): SplitValuesResult {
+  if (values.length === 0) {
+    return { ok: false, code: 'NO_RECIPIENTS', message: 'Add at least one recipient' };
+  }
+
+  if (mode === 'equal') {
+    return { ok: true, values: values.map(() => BigInt(1)) };
+  }
+
+  const parsed = values.map((value) => parseSplitValue(mode, value, decimals));
+  if (mode === 'fixed') {
+    const bad = parsed.findIndex((amount) => amount === null);
+    if (bad !== -1) {
+      return { ok: false, code: 'INVALID_VALUE', message: `Amount ${bad + 1} is not a valid amount`, index: bad };
+    }
+    return { ok: true, values: parsed as bigint[] };
+  }
+
+  const bad = parsed.findIndex((weight) => weight === null || weight === BigInt(0));
+  if (bad !== -1) {
+    const what = mode === 'percentage' ? 'Percentage' : 'Share';
+    return { ok: false, code: 'INVALID_VALUE', message: `${what} ${bad + 1} must be a number greater than 0`, index: bad };
+  }
+
+  if (mode === 'percentage') {
+    const sum = (parsed as bigint[]).reduce((a, b) => a + b, BigInt(0));
+    if (sum !== HUNDRED_PERCENT) {
+      return {
+        ok: false,
+        code: 'PERCENTAGES_NOT_100',
+        message: `Percentages add up to ${formatUnits(sum, PERCENT_DECIMALS)}%, not 100%`,
+      };
+    }
+  }
+  return { ok: true, values: parsed as bigint[] };
+}
+
+/**
+ * Amount each recipient gets
+ */
+export function calculateSplit({ mode, total, values, decimals }: SplitInput): SplitResult {
+  if (values.length === 0) {
+    return { ok: false, code: 'NO_RECIPIENTS', message: 'Add at least one recipient' };
+  }
+
+  let totalUnits: bigint | null = null;
+  if (mode !== 'fixed') {
+    totalUnits = parseAmount(total ?? '', decimals);
+    if (totalUnits === null || totalUnits === BigInt(0)) {
+      return { ok: false, code: 'INVALID_TOTAL', message: 'Enter a total greater than 0' };
+    }
+  }
+
+  const checked = checkSplitValues(mode, values, decimals);
+  if (!checked.ok) {
+    return checked;
+  }
+  const amounts = totalUnits === null ? checked.values : allocate(totalUnits, checked.values);
+
+  const zero = amounts.findIndex((amount) => amount === BigInt(0));
+  if (zero !== -1) {
+    return { ok: false, code: 'ZERO_AMOUNT', message: `Recipient ${zero + 1} would receive nothing`, index: zero };
+  }
+
+  return { ok: true, amounts, total: amounts.reduce((a, b) => a + b, BigInt(0)) };
+}
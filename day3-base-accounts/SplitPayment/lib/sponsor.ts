@@ -0,0 +1,81 @@
+import { sign, unsign } from './hmac';
+import type { ScopeGrants } from './recaps';
+
+/**
+ * Gas Sponsorship
+ *
+ * The paymaster URL stays on the server. A session with the paymaster/sponsor
+ * scope and the SPONSOR_CLAIM claim gets a short-lived ticket from POST /api/sponsor and hands the wallet a
+ * paymasterService URL on this app (/api/sponsor/paymaster?ticket=...). The
+ * wallet calls it without the session cookie, so the ticket carries who may be
+ * sponsored: the user, the sending address and their daily allowance.
+ *
+ * The proxy forwards only the ERC-7677 methods, for user operations sent from
+ * the ticket's address, and counts each sponsored operation (pm_getPaymasterData)
+ * against the allowance.
+ *
+ * Configuration:
+ * - PAYMASTER_URL: paymaster service (server-only)
+ * - SPONSOR_MAX_PER_DAY: upper limit for any grant (default: 10)
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-7677
+ */
+
+export const SPONSOR_DAY_MS = 24 * 60 * 60 * 1000;
+export const SPONSOR_MAX_PER_DAY = Number(process.env.SPONSOR_MAX_PER_DAY) || 10;
+
+// Time the wallet has to build and sponsor the transaction
+export const SPONSOR_TICKET_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Claim needed for sponsorship (claims.config.ts): the paymaster charges gas
+ * to the user's USDC balance
+ */
+export const SPONSOR_CLAIM = 'usdcHolder';
+
+/** Estimates gas with placeholder paymaster data; free */
+export const PAYMASTER_STUB_METHOD = 'pm_getPaymasterStubData';
+/** Signs the final user operation; one sponsorship */
+export const PAYMASTER_DATA_METHOD = 'pm_getPaymasterData';
+
+export interface SponsorTicket {
+  userId: string;
+  /** Address the sponsored user operations must come from */
+  address: string;
+  /** Sponsored operations allowed per day */
+  maxPerDay: number;
+  expiresAt: number;
+}
+
+export function getPaymasterUrl(): string | null {
+  return process.env.PAYMASTER_URL || null;
+}
+
+/**
+ * Daily allowance: the grant's maxPerDay caveat, capped by SPONSOR_MAX_PER_DAY
+ */
+export function sponsorAllowance(scopes: ScopeGrants): number {
+  const granted = Number(scopes['paymaster/sponsor']?.maxPerDay);
+  return Number.isInteger(granted) && granted > 0 ? Math.min(granted, SPONSOR_MAX_PER_DAY) : SPONSOR_MAX_PER_DAY;
+}
+
+/**
+ * Signed ticket for the paymaster proxy
+ */
+export function issueSponsorTicket(ticket: Omit<SponsorTicket, 'expiresAt'>): string {
+  const expiresAt = Date.now() + SPONSOR_TICKET_TTL_MS;
+  return sign([ticket.userId, ticket.address, ticket.maxPerDay, expiresAt].join(':'));
+}
+
+/**
+ * Check a ticket
+ * @returns the ticket, or null if it is tampered with or expired
+ */
+export function readSponsorTicket(value: string | null): SponsorTicket | null {
+  const payload = value ? unsign(value) : null;
+  const [userId, address, maxPerDay, expiresAt] = payload?.split(':') ?? [];
+  if (!userId || !address || !maxPerDay || !expiresAt || Number(expiresAt) <= Date.now()) {
+    return null;
+  }
+  return { userId, address, maxPerDay: Number(maxPerDay), expiresAt: Number(expiresAt) };
+}
@@ -0,0 +1,510 @@
+import crypto from 'crypto';
+import { getAddress } from 'viem';
+import { getDb, hasColumn, ensureColumn, getAuthStoreKind } from './db';
+import { isRole, type Role } from './roles';
+import type { ScopeGrants } from './recaps';
+import { sign, unsign } from './hmac';
+import {
+  SESSION_TTL_MS,
+  describeClient,
+  describeSubject,
+  type Session,
+  type SessionClient,
+  type SessionSubject,
+} from './sessions';
+
+/**
+ * Stateless Session Tokens
+ *
+ * Alternative to server-stored sessions for hosts without shared state
+ *
+ * Tokens:
+ * - Access token: short-lived, HMAC-signed (AUTH_SECRET), verified without any lookup
+ * - Refresh token: signed, single-use; every refresh rotates it
+ *
+ * Reuse detection:
+ * - Refresh tokens of one sign-in form a family with a generation counter
+ * - Presenting an older generation means the token was copied, so the whole
+ *   family is revoked and the user has to sign in again
+ * - Except the previous generation within REFRESH_GRACE_MS of a rotation: tabs
+ *   refreshing at the same moment (no navigator.locks) both get the current tokens
+ * - Only the family's current generation is stored (memory or sqlite, see AUTH_STORE)
+ * - Families double as the session list in this mode; a refresh counts as "last seen"
+ *
+ * Configuration:
+ * - SESSION_MODE=stateful (default) | stateless
+ */
+
+// Access tokens live 15 minutes; the client refreshes before they expire
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Refresh tokens (and the family) live as long as a stateful session
+export const REFRESH_TOKEN_TTL_MS = SESSION_TTL_MS;
+
+// How long after a rotation the previous refresh token still works
+export const REFRESH_GRACE_MS = 10 * 1000;
+
+export type SessionMode = 'stateful' | 'stateless';
+
+export function getSessionMode(): SessionMode {
+  return process.env.SESSION_MODE === 'stateless' ? 'stateless' : 'stateful';
+}
+
+interface AccessClaims {
+  typ: 'access';
+  /** Refresh family id, doubles as the session id */
+  sid: string;
+  /** User id */
+  sub: string;
+  /** Wallet and chain the user signed in with */
+  adr: string | null;
+  cid: number | null;
+  /** Farcaster ID the user signed in with */
+  fid: number | null;
+  /** Role as of sign-in */
+  rol: Role;
+  /** Onchain claims met at sign-in */
+  clm: string[];
+  /** Scopes granted with a SIWE ReCap */
+  scp: ScopeGrants;
+  /** When the user signed in */
+  iat: number;
+  exp: number;
+}
+
+interface RefreshClaims {
+  typ: 'refresh';
+  /** Refresh family id */
+  fam: string;
+  gen: number;
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export interface RefreshFamily {
+  id: string;
+  userId: string;
+  address: string | null;
+  chainId: number | null;
+  fid: number | null;
+  role: Role;
+  claims: string[];
+  scopes: ScopeGrants;
+  userAgent: string | null;
+  ip: string | null;
+  generation: number;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+}
+
+export interface RefreshFamilyStore {
+  create(family: RefreshFamily): Promise<void>;
+  get(id: string): Promise<RefreshFamily | null>;
+  /** Atomically move from one generation to the next; false if the generation changed */
+  advance(id: string, generation: number, lastSeenAt: number): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+  listByUser(userId: string): Promise<RefreshFamily[]>;
+  deleteByUser(userId: string): Promise<number>;
+  deleteByAddress(address: string): Promise<number>;
+}
+
+/**
+ * In-memory family store
+ */
+export function createMemoryRefreshFamilyStore(): RefreshFamilyStore {
+  const families = new Map<string, RefreshFamily>();
+
+  return {
+    async create(family) {
+      const now = Date.now();
+      for (const [id, existing] of families) {
+        if (existing.expiresAt <= now) {
+          families.delete(id);
+        }
+      }
+      families.set(family.id, { ...family });
+    },
+    async get(id) {
+      const family = families.get(id);
+      return family ? { ...family } : null;
+    },
+    async advance(id, generation, lastSeenAt) {
+      const family = families.get(id);
+      if (!family || family.generation !== generation) {
+        return false;
+      }
+      family.generation = generation + 1;
+      family.lastSeenAt = lastSeenAt;
+      return true;
+    },
+    async delete(id) {
+      return families.delete(id);
+    },
+    async listByUser(userId) {
+      return Array.from(families.values())
+        .filter((family) => family.userId === userId)
+        .map((family) => ({ ...family }));
+    },
+    async deleteByUser(userId) {
+      let count = 0;
+      for (const [id, family] of families) {
+        if (family.userId === userId) {
+          families.delete(id);
+          count++;
+        }
+      }
+      return count;
+    },
+    async deleteByAddress(address) {
+      let count = 0;
+      for (const [id, family] of families) {
+        if (family.address === address) {
+          families.delete(id);
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
+
+interface RefreshFamilyRow {
+  id: string;
+  user_id: string;
+  address: string | null;
+  chain_id: number | null;
+  fid: number | null;
+  role: Role;
+  claims: string;
+  scopes: string;
+  user_agent: string | null;
+  ip: string | null;
+  generation: number;
+  created_at: number;
+  last_seen_at: number;
+  expires_at: number;
+}
+
+function fromRow(row: RefreshFamilyRow): RefreshFamily {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    address: row.address,
+    chainId: row.chain_id,
+    fid: row.fid,
+    role: row.role,
+    claims: JSON.parse(row.claims),
+    scopes: JSON.parse(row.scopes),
+    userAgent: row.user_agent,
+    ip: row.ip,
+    generation: row.generation,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * SQLite family store
+ */
+export function createSqliteRefreshFamilyStore(): RefreshFamilyStore {
+  const db = getDb();
+  // Families from before user identities belong to no user, so everyone signs in again
+  if (!hasColumn('refresh_families', 'user_id')) {
+    db.exec('DROP TABLE IF EXISTS refresh_families');
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS refresh_families (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      address TEXT,
+      chain_id INTEGER,
+      fid INTEGER,
+      role TEXT NOT NULL DEFAULT 'user',
+      claims TEXT NOT NULL DEFAULT '[]',
+      scopes TEXT NOT NULL DEFAULT '{}',
+      user_agent TEXT,
+      ip TEXT,
+      generation INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS refresh_families_user ON refresh_families (user_id);
+    CREATE INDEX IF NOT EXISTS refresh_families_address ON refresh_families (address);
+  `);
+  ensureColumn('refresh_families', 'role', "TEXT NOT NULL DEFAULT 'user'");
+  ensureColumn('refresh_families', 'claims', "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn('refresh_families', 'scopes', "TEXT NOT NULL DEFAULT '{}'");
+
+  const insert = db.prepare(`
+    INSERT INTO refresh_families (id, user_id, address, chain_id, fid, role, claims, scopes, user_agent, ip, generation, created_at, last_seen_at, expires_at)
+    VALUES (@id, @userId, @address, @chainId, @fid, @role, @claims, @scopes, @userAgent, @ip, @generation, @createdAt, @lastSeenAt, @expiresAt)
+  `);
+  const select = db.prepare<[string], RefreshFamilyRow>('SELECT * FROM refresh_families WHERE id = ?');
+  const advance = db.prepare(
+    'UPDATE refresh_families SET generation = generation + 1, last_seen_at = ? WHERE id = ? AND generation = ?'
+  );
+  const remove = db.prepare('DELETE FROM refresh_families WHERE id = ?');
+  const selectByUser = db.prepare<[string], RefreshFamilyRow>(
+    'SELECT * FROM refresh_families WHERE user_id = ? ORDER BY created_at'
+  );
+  const removeByUser = db.prepare('DELETE FROM refresh_families WHERE user_id = ?');
+  const removeByAddress = db.prepare('DELETE FROM refresh_families WHERE address = ?');
+  const prune = db.prepare('DELETE FROM refresh_families WHERE expires_at <= ?');
+
+  return {
+    async create(family) {
+      prune.run(Date.now());
+      insert.run({ ...family, claims: JSON.stringify(family.claims), scopes: JSON.stringify(family.scopes) });
+    },
+    async get(id) {
+      const row = select.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async advance(id, generation, lastSeenAt) {
+      return advance.run(lastSeenAt, id, generation).changes === 1;
+    },
+    async delete(id) {
+      return remove.run(id).changes === 1;
+    },
+    async listByUser(userId) {
+      return selectByUser.all(userId).map(fromRow);
+    },
+    async deleteByUser(userId) {
+      return removeByUser.run(userId).changes;
+    },
+    async deleteByAddress(address) {
+      return removeByAddress.run(address).changes;
+    },
+  };
+}
+
+// Global store using globalThis to persist across module reloads
+const globalForFamilies = globalThis as unknown as {
+  refreshFamilyStore: RefreshFamilyStore | undefined;
+};
+
+export function getRefreshFamilyStore(): RefreshFamilyStore {
+  if (!globalForFamilies.refreshFamilyStore) {
+    globalForFamilies.refreshFamilyStore =
+      getAuthStoreKind() !== 'memory' ? createSqliteRefreshFamilyStore() : createMemoryRefreshFamilyStore();
+  }
+  return globalForFamilies.refreshFamilyStore;
+}
+
+export function setRefreshFamilyStore(store: RefreshFamilyStore) {
+  globalForFamilies.refreshFamilyStore = store;
+}
+
+function encode(claims: AccessClaims | RefreshClaims): string {
+  return sign(Buffer.from(JSON.stringify(claims)).toString('base64url'));
+}
+
+function decode(token: string): AccessClaims | RefreshClaims | null {
+  const payload = unsign(token);
+  if (!payload) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return null;
+  }
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: number;
+  session: Session;
+}
+
+function issue(family: RefreshFamily, generation: number): IssuedTokens {
+  const now = Date.now();
+  const accessExpiresAt = Math.min(now + ACCESS_TOKEN_TTL_MS, family.expiresAt);
+
+  return {
+    accessToken: encode({
+      typ: 'access',
+      sid: family.id,
+      sub: family.userId,
+      adr: family.address,
+      cid: family.chainId,
+      fid: family.fid,
+      rol: family.role,
+      clm: family.claims,
+      scp: family.scopes,
+      iat: family.createdAt,
+      exp: accessExpiresAt,
+    }),
+    refreshToken: encode({
+      typ: 'refresh',
+      fam: family.id,
+      gen: generation,
+      sub: family.userId,
+      iat: now,
+      exp: family.expiresAt,
+    }),
+    accessExpiresAt,
+    session: { ...toSession(family), expiresAt: accessExpiresAt },
+  };
+}
+
+function toSession(family: Omit<RefreshFamily, 'generation'>): Session {
+  const { id, userId, address, chainId, fid, role, claims, scopes, userAgent, ip, createdAt, lastSeenAt, expiresAt } =
+    family;
+  return {
+    id,
+    tokenHash: '',
+    userId,
+    address,
+    chainId,
+    fid,
+    role,
+    claims,
+    scopes,
+    userAgent,
+    ip,
+    createdAt,
+    lastSeenAt,
+    expiresAt,
+  };
+}
+
+/**
+ * Start a token family for a freshly signed-in user
+ * @param subject - The user and the credential they signed in with
+ * @param client - Device and IP shown in the session list
+ */
+export async function issueTokens(subject: SessionSubject, client: SessionClient = {}): Promise<IssuedTokens> {
+  const now = Date.now();
+  const family: RefreshFamily = {
+    id: crypto.randomBytes(12).toString('hex'),
+    ...describeSubject(subject),
+    ...describeClient(client),
+    generation: 0,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + REFRESH_TOKEN_TTL_MS,
+  };
+  await getRefreshFamilyStore().create(family);
+
+  return issue(family, 0);
+}
+
+/**
+ * Verify an access token without any lookup
+ * @returns the session it describes, or null if invalid or expired
+ */
+export function verifyAccessToken(token: string): Session | null {
+  const claims = decode(token);
+  if (!claims || claims.typ !== 'access' || claims.exp <= Date.now()) {
+    return null;
+  }
+  return toSession({
+    id: claims.sid,
+    userId: claims.sub,
+    address: claims.adr,
+    chainId: claims.cid,
+    fid: claims.fid,
+    // Tokens from before roles carry none
+    role: isRole(claims.rol) ? claims.rol : 'user',
+    // Tokens from before sign-in claims and scopes carry none
+    claims: Array.isArray(claims.clm) ? claims.clm : [],
+    scopes: claims.scp ?? {},
+    userAgent: null,
+    ip: null,
+    createdAt: claims.iat,
+    lastSeenAt: Date.now(),
+    expiresAt: claims.exp,
+  });
+}
+
+export type RefreshResult =
+  | { ok: true; tokens: IssuedTokens }
+  | { ok: false; code: 'INVALID_REFRESH_TOKEN' | 'REFRESH_TOKEN_REUSED' };
+
+/**
+ * Exchange a refresh token for a new access/refresh pair
+ * Reusing a rotated refresh token revokes the whole family
+ */
+export async function rotateRefreshToken(refreshToken: string): Promise<RefreshResult> {
+  const claims = decode(refreshToken);
+  if (!claims || claims.typ !== 'refresh' || claims.exp <= Date.now()) {
+    return { ok: false, code: 'INVALID_REFRESH_TOKEN' };
+  }
+
+  const store = getRefreshFamilyStore();
+  const family = await store.get(claims.fam);
+  if (!family || family.expiresAt <= Date.now()) {
+    return { ok: false, code: 'INVALID_REFRESH_TOKEN' };
+  }
+
+  const now = Date.now();
+  if (claims.gen === family.generation && (await store.advance(family.id, claims.gen, now))) {
+    return { ok: true, tokens: issue({ ...family, lastSeenAt: now }, claims.gen + 1) };
+  }
+
+  // Another tab may have just rotated this token: the previous generation gets
+  // the current tokens for a moment instead of revoking the family
+  const current = await store.get(family.id);
+  if (current && claims.gen === current.generation - 1 && now - current.lastSeenAt <= REFRESH_GRACE_MS) {
+    return { ok: true, tokens: issue(current, current.generation) };
+  }
+
+  // Any other old generation means the token was replayed
+  await store.delete(family.id);
+  return { ok: false, code: 'REFRESH_TOKEN_REUSED' };
+}
+
+/**
+ * Read which family a refresh token belongs to (signature checked, state not)
+ */
+export function readRefreshToken(refreshToken: string): { familyId: string; userId: string } | null {
+  const claims = decode(refreshToken);
+  return claims && claims.typ === 'refresh' ? { familyId: claims.fam, userId: claims.sub } : null;
+}
+
+/**
+ * Revoke a family so its refresh token stops working
+ * Access tokens already issued stay valid until they expire
+ */
+export async function revokeTokenFamily(id: string): Promise<boolean> {
+  return getRefreshFamilyStore().delete(id);
+}
+
+/**
+ * List a user's unexpired families, as sessions
+ */
+export async function listTokenFamilies(userId: string): Promise<Session[]> {
+  const now = Date.now();
+  const families = await getRefreshFamilyStore().listByUser(userId);
+  return families.filter((family) => family.expiresAt > now).map(toSession);
+}
+
+/**
+ * Revoke one of a user's families by id
+ * @returns false if the family doesn't exist or belongs to another user
+ */
+export async function revokeTokenFamilyById(userId: string, id: string): Promise<boolean> {
+  const store = getRefreshFamilyStore();
+  const family = await store.get(id);
+  return family?.userId === userId ? store.delete(id) : false;
+}
+
+/**
+ * Revoke every family for a user
+ */
+export async function revokeAllTokenFamilies(userId: string): Promise<number> {
+  return getRefreshFamilyStore().deleteByUser(userId);
+}
+
+/**
+ * Revoke every family signed in with an address, whichever user it belongs to
+ */
+export async function revokeTokenFamiliesByAddress(address: string): Promise<number> {
+  return getRefreshFamilyStore().deleteByAddress(getAddress(address));
+}
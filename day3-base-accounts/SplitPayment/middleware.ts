@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isProtectedRoute } from '@/lib/protectedRoutes';
+import { SESSION_COOKIE } from '@/lib/authCookies';
+
+/**
+ * Route Protection Middleware
+ *
+ * Rejects requests to routes declared in lib/protectedRoutes.ts that carry no
+ * session cookie. Runs on the Edge runtime, so it can only check the cookie is
+ * present; route handlers validate it with requireSession().
+ */
+
+export function middleware(request: NextRequest) {
+  if (
+    isProtectedRoute(request.nextUrl.pathname, request.method) &&
+    !request.cookies.has(SESSION_COOKIE)
+  ) {
+    return NextResponse.json(
+      { error: 'Authentication required', code: 'UNAUTHENTICATED' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,22 @@
+/**
+ * Role configuration
+ *
+ * Addresses listed here get the role whenever they sign in. Roles can also be
+ * granted at runtime through /api/admin/roles, and from the environment:
+ * ADMIN_ADDRESSES and OPERATOR_ADDRESSES (comma separated).
+ *
+ * baseBuilder has the same shape as the mini app manifest's (see minikit.config.ts
+ * in a MiniKit app); its allowedAddresses can own the app on Base Build, so they
+ * are admins here. Point it at the manifest's baseBuilder to share one list.
+ */
+export const rolesConfig: {
+  admins: string[];
+  operators: string[];
+  baseBuilder: { allowedAddresses: readonly string[] };
+} = {
+  admins: [],
+  operators: [],
+  baseBuilder: {
+    allowedAddresses: [],
+  },
+};
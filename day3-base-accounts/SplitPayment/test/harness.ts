@@ -0,0 +1,179 @@
+import Database from 'better-sqlite3';
+import { NextRequest } from 'next/server';
+import { createSiweMessage, type CreateSiweMessageParameters } from 'viem/siwe';
+import type { Address, Hex } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { setNonceStore, setChallengeStore, createMemoryNonceStore } from '@/lib/nonceStore';
+import { setDb, type AuthStoreKind } from '@/lib/db';
+import { setSessionBackend, createMemorySessionBackend, createSqliteSessionBackend } from '@/lib/sessions';
+import { setRefreshFamilyStore, createMemoryRefreshFamilyStore, createSqliteRefreshFamilyStore } from '@/lib/tokens';
+import { setIdentityStore, createMemoryIdentityStore, createSqliteIdentityStore } from '@/lib/identity';
+import { setRoleStore, createMemoryRoleStore } from '@/lib/roleStore';
+import { setRateLimitStore, createMemoryRateLimitStore } from '@/lib/rateLimit';
+import { setPasskeyStore, createMemoryPasskeyStore } from '@/lib/passkeys';
+import { setSplitGroupStore, createMemorySplitGroupStore } from '@/lib/splitGroups';
+import { setAuditSink, type AuditEntry } from '@/lib/audit';
+import { setChainClient, supportedChains } from '@/lib/chains';
+import { CSRF_COOKIE, CSRF_HEADER } from '@/lib/authCookies';
+import { GET as getNonce } from '@/app/api/auth/nonce/route';
+import { POST as verify } from '@/app/api/auth/verify/route';
+import { GET as getSession, DELETE as signOut } from '@/app/api/auth/session/route';
+import { createMockChain, type MockChain } from './mockChain';
+
+/**
+ * Route Test Harness
+ *
+ * Calls the auth route handlers in-process with fresh in-memory stores and a
+ * mock chain, so the full SIWE flow runs without a server or network
+ */
+
+export const ORIGIN = 'http://localhost:3000';
+export const HOST = 'localhost:3000';
+export const CHAIN_ID = baseSepolia.id;
+
+export interface Signer {
+  address: Address;
+  signMessage(args: { message: string }): Promise<Hex>;
+}
+
+type Handler = (request: NextRequest) => Promise<Response>;
+
+interface RequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Reset every store and put a fresh mock on every chain (sign-in claims read
+ * other chains too, and must not reach the network)
+ * @param store - 'sqlite' keeps sessions, token families and users in a fresh
+ *   in-memory SQLite database instead
+ * @returns the mock chain and the audit entries written from now on
+ */
+export function resetAuth(store: Exclude<AuthStoreKind, 'redis'> = 'memory'): { chain: MockChain; auditLog: AuditEntry[] } {
+  setNonceStore(createMemoryNonceStore());
+  setChallengeStore(createMemoryNonceStore());
+  if (store === 'sqlite') {
+    setDb(new Database(':memory:'));
+    setSessionBackend(createSqliteSessionBackend());
+    setRefreshFamilyStore(createSqliteRefreshFamilyStore());
+    setIdentityStore(createSqliteIdentityStore());
+  } else {
+    setSessionBackend(createMemorySessionBackend());
+    setRefreshFamilyStore(createMemoryRefreshFamilyStore());
+    setIdentityStore(createMemoryIdentityStore());
+  }
+  setRoleStore(createMemoryRoleStore());
+  setRateLimitStore(createMemoryRateLimitStore());
+  setPasskeyStore(createMemoryPasskeyStore());
+  setSplitGroupStore(createMemorySplitGroupStore());
+
+  const auditLog: AuditEntry[] = [];
+  setAuditSink({
+    async write(entry) {
+      auditLog.push(entry);
+    },
+  });
+
+  for (const [chainId, chain] of Object.entries(supportedChains)) {
+    setChainClient(Number(chainId), createMockChain(chain).client);
+  }
+  const chain = createMockChain(baseSepolia);
+  setChainClient(CHAIN_ID, chain.client);
+  return { chain, auditLog };
+}
+
+/**
+ * A browser: keeps the cookies the routes set and sends them back
+ */
+export function createBrowser(ip = '203.0.113.7') {
+  const cookies = new Map<string, string>();
+
+  async function send(handler: Handler, path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    headers.set('host', HOST);
+    headers.set('x-forwarded-for', ip);
+    if (cookies.size > 0) {
+      headers.set('cookie', Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; '));
+    }
+
+    const response = await handler(new NextRequest(`${ORIGIN}${path}`, { ...init, headers }));
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(';');
+      const index = pair.indexOf('=');
+      const name = pair.slice(0, index);
+      const value = pair.slice(index + 1);
+      if (value) {
+        cookies.set(name, value);
+      } else {
+        cookies.delete(name);
+      }
+    }
+    return response;
+  }
+
+  return {
+    cookies,
+    send,
+    /** Fetch a nonce (sets the nonce cookie) */
+    async nonce(): Promise<string> {
+      const response = await send(getNonce, '/api/auth/nonce');
+      return (await response.json()).nonce;
+    },
+    /** Post a signed message to /api/auth/verify */
+    verify(body: { address: string; message: string; signature: string }) {
+      return send(verify, '/api/auth/verify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    },
+    session() {
+      return send(getSession, '/api/auth/session');
+    },
+    /** The CSRF header a page would send with a mutating request */
+    csrf(): Record<string, string> {
+      return { [CSRF_HEADER]: cookies.get(CSRF_COOKIE) ?? '' };
+    },
+    signOut() {
+      return send(signOut, '/api/auth/session', { method: 'DELETE', headers: this.csrf() });
+    },
+  };
+}
+
+export type Browser = ReturnType<typeof createBrowser>;
+
+/**
+ * SIWE message for this app, with any field overridden
+ */
+export function siweMessage(
+  address: Address,
+  nonce: string,
+  overrides: Partial<CreateSiweMessageParameters> = {}
+): string {
+  return createSiweMessage({
+    domain: HOST,
+    uri: ORIGIN,
+    version: '1',
+    chainId: CHAIN_ID,
+    address,
+    nonce,
+    issuedAt: new Date(),
+    statement: 'Sign in to SplitPayment',
+    ...overrides,
+  });
+}
+
+/**
+ * Sign a fresh SIWE message with a signer
+ * @returns the request body for /api/auth/verify
+ */
+export async function signSiwe(
+  browser: Browser,
+  signer: Signer,
+  overrides: Partial<CreateSiweMessageParameters> = {}
+) {
+  const message = siweMessage(signer.address, await browser.nonce(), overrides);
+  return { address: signer.address, message, signature: await signer.signMessage({ message }) };
+}
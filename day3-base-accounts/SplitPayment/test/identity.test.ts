@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { POST as link } from '@/app/api/auth/link/route';
+import { POST as signIn } from '@/app/api/auth/session/route';
+import { DELETE as revokeWalletSessions } from '@/app/api/auth/sessions/route';
+import { listActiveSessions } from '@/lib/sessionCookie';
+import { createBrowser, resetAuth, signSiwe, type Browser } from './harness';
+
+/**
+ * Identities: linking credentials to one user, and the sessions that follow them
+ */
+
+// Quick Auth tokens are "fid-<fid>" here, instead of JWTs signed by Farcaster's keys
+vi.mock('@farcaster/quick-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@farcaster/quick-auth')>()),
+  createClient: () => ({
+    verifyJwt: async ({ token }: { token: string }) => ({ sub: token.replace('fid-', '') }),
+  }),
+}));
+
+const newKey = () => privateKeyToAccount(generatePrivateKey());
+
+function linkWallet(browser: Browser, body: Awaited<ReturnType<typeof signSiwe>>) {
+  return browser.send(link, '/api/auth/link', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...browser.csrf() },
+    body: JSON.stringify(body),
+  });
+}
+
+function linkFid(browser: Browser, fid: number) {
+  return browser.send(link, '/api/auth/link', {
+    method: 'POST',
+    headers: { authorization: `Bearer fid-${fid}`, ...browser.csrf() },
+  });
+}
+
+function signInWithFid(browser: Browser, fid: number) {
+  return browser.send(signIn, '/api/auth/session', {
+    method: 'POST',
+    headers: { authorization: `Bearer fid-${fid}` },
+  });
+}
+
+async function currentUser(browser: Browser) {
+  return (await browser.session()).json();
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe.each(['memory', 'sqlite'] as const)('identities (%s store)', (store) => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', () => Promise.reject(new Error('Network access in tests')));
+    resetAuth(store);
+  });
+
+  it('links a new wallet to the signed-in user', async () => {
+    const [first, second] = [newKey(), newKey()];
+    const main = createBrowser();
+    const { userId } = await (await main.verify(await signSiwe(main, first))).json();
+
+    const linked = await linkWallet(main, await signSiwe(main, second));
+    expect(linked.status).toBe(200);
+    expect(await linked.json()).toEqual({ userId, fid: null, addresses: [first.address, second.address] });
+
+    // Either wallet now signs in as the same user
+    const other = createBrowser();
+    expect((await (await other.verify(await signSiwe(other, second))).json()).userId).toBe(userId);
+  });
+
+  it('merges a Farcaster-only user into the wallet user and signs it out', async () => {
+    const wallet = newKey();
+    const farcaster = createBrowser();
+    const { userId: farcasterUserId } = await (await signInWithFid(farcaster, 7)).json();
+    const main = createBrowser();
+    const { userId } = await (await main.verify(await signSiwe(main, wallet))).json();
+
+    const linked = await linkFid(main, 7);
+    expect(linked.status).toBe(200);
+    expect(await linked.json()).toEqual({ userId, fid: 7, addresses: [wallet.address] });
+
+    // The merged user is gone, and so are its sessions
+    expect((await currentUser(farcaster)).authenticated).toBe(false);
+    expect(await listActiveSessions(farcasterUserId)).toEqual([]);
+    const again = await (await signInWithFid(createBrowser(), 7)).json();
+    expect(again.userId).toBe(userId);
+    expect(again.userId).not.toBe(farcasterUserId);
+    expect((await currentUser(main)).fid).toBe(7);
+  });
+
+  it("merges a wallet user into the Farcaster user, keeping the Farcaster user's FID", async () => {
+    const wallet = newKey();
+    const main = createBrowser();
+    const { userId: walletUserId } = await (await main.verify(await signSiwe(main, wallet))).json();
+    const farcaster = createBrowser();
+    const { userId } = await (await signInWithFid(farcaster, 7)).json();
+
+    const linked = await linkWallet(farcaster, await signSiwe(farcaster, wallet));
+    expect(await linked.json()).toEqual({ userId, fid: 7, addresses: [wallet.address] });
+    expect((await currentUser(main)).authenticated).toBe(false);
+    expect(await listActiveSessions(walletUserId)).toEqual([]);
+  });
+
+  it('refuses to join users with different FIDs', async () => {
+    const wallet = newKey();
+    const main = createBrowser();
+    await main.verify(await signSiwe(main, wallet));
+    expect((await linkFid(main, 7)).status).toBe(200);
+    const farcaster = createBrowser();
+    const { userId } = await (await signInWithFid(farcaster, 8)).json();
+
+    for (const response of [await linkFid(main, 8), await linkWallet(farcaster, await signSiwe(farcaster, wallet))]) {
+      expect(response.status).toBe(409);
+      expect((await response.json()).code).toBe('IDENTITY_CONFLICT');
+    }
+    // A user has at most one FID, even one nobody else owns
+    expect((await linkFid(main, 9)).status).toBe(409);
+
+    // Both users are as they were, and still signed in
+    expect(await currentUser(main)).toMatchObject({ authenticated: true, fid: 7, addresses: [wallet.address] });
+    expect(await currentUser(farcaster)).toMatchObject({ authenticated: true, userId, fid: 8, addresses: [] });
+  });
+
+  it("revokes every session signed in with one of the user's wallets", async () => {
+    const [first, second] = [newKey(), newKey()];
+    const main = createBrowser();
+    await main.verify(await signSiwe(main, first));
+    expect((await linkWallet(main, await signSiwe(main, second))).status).toBe(200);
+
+    const other = createBrowser();
+    await other.verify(await signSiwe(other, second));
+    expect((await (await other.session()).json()).authenticated).toBe(true);
+
+    const response = await main.send(revokeWalletSessions, `/api/auth/sessions?address=${second.address.toLowerCase()}`, {
+      method: 'DELETE',
+      headers: main.csrf(),
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).revoked).toBe(1);
+    expect((await (await other.session()).json()).authenticated).toBe(false);
+    // Signed in with the other wallet: still signed in
+    expect((await (await main.session()).json()).authenticated).toBe(true);
+  });
+
+  it("doesn't revoke sessions for a wallet the user hasn't linked", async () => {
+    const main = createBrowser();
+    await main.verify(await signSiwe(main, newKey()));
+    const stranger = newKey();
+    const other = createBrowser();
+    await other.verify(await signSiwe(other, stranger));
+
+    const response = await main.send(revokeWalletSessions, `/api/auth/sessions?address=${stranger.address}`, {
+      method: 'DELETE',
+      headers: main.csrf(),
+    });
+    expect(response.status).toBe(404);
+    expect((await (await other.session()).json()).authenticated).toBe(true);
+  });
+});
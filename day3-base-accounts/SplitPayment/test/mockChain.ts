@@ -0,0 +1,163 @@
+import {
+  createPublicClient,
+  custom,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeAbiParameters,
+  erc20Abi,
+  erc6492SignatureValidatorByteCode,
+  hashMessage,
+  isAddressEqual,
+  isErc6492Signature,
+  numberToHex,
+  parseErc6492Signature,
+  recoverAddress,
+  serializeErc6492Signature,
+  toFunctionSelector,
+  type Address,
+  type Chain,
+  type Hex,
+  type LocalAccount,
+  type PublicClient,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+/**
+ * Mock Chain
+ *
+ * A viem public client whose transport answers locally, so signature checks run
+ * through viem's real verifyMessage without any network
+ *
+ * viem verifies every signature with one eth_call to the deployless ERC-6492
+ * validator; this transport plays that validator:
+ * - EOA: the signature must recover to the signer
+ * - ERC-1271: a deployed smart wallet accepts its owner's signature
+ * - ERC-6492: an undeployed wallet is "deployed" from the factory call in the
+ *   wrapper (it must be the wallet's own), then checked as ERC-1271
+ *
+ * ERC-20 balanceOf answers with balances set by setTokenBalance. Any other
+ * eth_call reads as empty storage (a zero word), so other onchain claims
+ * evaluate as not met.
+ */
+
+export interface MockSmartWallet {
+  address: Address;
+  owner: LocalAccount;
+  factory: Address;
+  factoryData: Hex;
+  deployed: boolean;
+  /** Sign as the wallet: the owner's signature, wrapped per ERC-6492 until deployed */
+  signMessage(args: { message: string }): Promise<Hex>;
+}
+
+export interface MockChain {
+  client: PublicClient;
+  /**
+   * Add a smart wallet owned by a key
+   * @param deployed - false for a counterfactual wallet that signs with ERC-6492
+   */
+  addSmartWallet(owner: LocalAccount, options?: { deployed?: boolean }): MockSmartWallet;
+  /** Give an address a balance of an ERC-20 (raw token units) */
+  setTokenBalance(token: Address, owner: Address, amount: bigint): void;
+}
+
+const ZERO_WORD = encodeAbiParameters([{ type: 'uint256' }], [BigInt(0)]);
+const BALANCE_OF_SELECTOR = toFunctionSelector('balanceOf(address)');
+
+// Shared by every mock wallet; only the factory data differs
+const FACTORY_ADDRESS: Address = '0x0BA5ED0c6AA8c49038F819E587E2633c4A9F428a';
+
+async function recoversTo(hash: Hex, signature: Hex, signer: Address): Promise<boolean> {
+  try {
+    return isAddressEqual(await recoverAddress({ hash, signature }), signer);
+  } catch {
+    return false;
+  }
+}
+
+export function createMockChain(chain: Chain): MockChain {
+  const wallets = new Map<string, MockSmartWallet>();
+  const balances = new Map<string, bigint>();
+  const balanceKey = (token: Address, owner: Address) => `${token}:${owner}`.toLowerCase();
+
+  // What the ERC-6492 validator returns for isValidSig(signer, hash, signature)
+  async function isValidSig(signer: Address, hash: Hex, signature: Hex): Promise<boolean> {
+    const wallet = wallets.get(signer.toLowerCase());
+
+    if (isErc6492Signature(signature)) {
+      const wrapped = parseErc6492Signature(signature);
+      // Deploying from this factory call must produce the signer's code
+      const deploys =
+        !!wallet &&
+        (wallet.deployed ||
+          (!!wrapped.address && isAddressEqual(wrapped.address, wallet.factory) && wrapped.data === wallet.factoryData));
+      return deploys && recoversTo(hash, wrapped.signature, wallet!.owner.address);
+    }
+
+    if (wallet) {
+      // Without code (and no wrapper to deploy it) there is nothing to call isValidSignature on
+      return wallet.deployed && recoversTo(hash, signature, wallet.owner.address);
+    }
+    return recoversTo(hash, signature, signer);
+  }
+
+  async function call({ to, data }: { to?: Address; data?: Hex }): Promise<Hex> {
+    if (!to && data?.startsWith(erc6492SignatureValidatorByteCode)) {
+      const [signer, hash, signature] = decodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes32' }, { type: 'bytes' }],
+        `0x${data.slice(erc6492SignatureValidatorByteCode.length)}`
+      );
+      return encodeAbiParameters([{ type: 'bool' }], [await isValidSig(signer, hash, signature)]);
+    }
+    if (to && data?.startsWith(BALANCE_OF_SELECTOR)) {
+      const { args } = decodeFunctionData({ abi: erc20Abi, data });
+      const balance = balances.get(balanceKey(to, args[0] as Address)) ?? BigInt(0);
+      return encodeAbiParameters([{ type: 'uint256' }], [balance]);
+    }
+    return ZERO_WORD;
+  }
+
+  const client = createPublicClient({
+    chain,
+    transport: custom(
+      {
+        async request({ method, params }) {
+          switch (method) {
+            case 'eth_chainId':
+              return numberToHex(chain.id);
+            case 'eth_call':
+              return call((params as [{ to?: Address; data?: Hex }])[0]);
+            default:
+              throw new Error(`Mock chain does not support ${method}`);
+          }
+        },
+      },
+      { retryCount: 0 }
+    ),
+  }) as PublicClient;
+
+  return {
+    client,
+    addSmartWallet(owner, { deployed = true } = {}) {
+      const address = privateKeyToAccount(generatePrivateKey()).address;
+      const wallet: MockSmartWallet = {
+        address,
+        owner,
+        factory: FACTORY_ADDRESS,
+        factoryData: encodeAbiParameters([{ type: 'address' }, { type: 'address' }], [owner.address, address]),
+        deployed,
+        async signMessage({ message }) {
+          const signature = await owner.sign!({ hash: hashMessage(message) });
+          return wallet.deployed
+            ? signature
+            : serializeErc6492Signature({ address: wallet.factory, data: wallet.factoryData, signature });
+        },
+      };
+      wallets.set(address.toLowerCase(), wallet);
+      return wallet;
+    },
+    setTokenBalance(token, owner, amount) {
+      balances.set(balanceKey(token, owner), amount);
+    },
+  };
+}
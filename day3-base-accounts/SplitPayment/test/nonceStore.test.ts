@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRedisNonceStore, type NonceStore, type RedisLike } from '@/lib/nonceStore';
+
+/**
+ * Redis nonce adapter, against an in-memory stand-in for the Redis commands it uses
+ */
+
+function createFakeRedis(): RedisLike {
+  const keys = new Map<string, { value: string; expiresAt: number }>();
+  const sets = new Map<string, Map<string, number>>();
+  const live = (key: string) => {
+    const expiresAt = keys.get(key)?.expiresAt;
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      keys.delete(key);
+    }
+    return keys.has(key);
+  };
+  const set = (key: string) => sets.get(key) ?? sets.set(key, new Map()).get(key)!;
+
+  return {
+    async set(key, value, _mode, ttlMs) {
+      keys.set(key, { value, expiresAt: Date.now() + ttlMs });
+      return 'OK';
+    },
+    async get(key) {
+      return live(key) ? keys.get(key)!.value : null;
+    },
+    async exists(key) {
+      return live(key) ? 1 : 0;
+    },
+    async del(key) {
+      return live(key) && keys.delete(key) ? 1 : 0;
+    },
+    async zadd(key, score, member) {
+      set(key).set(member, score);
+      return 1;
+    },
+    async zrem(key, member) {
+      return set(key).delete(member) ? 1 : 0;
+    },
+    async zremrangebyscore(key, min, max) {
+      let removed = 0;
+      for (const [member, score] of set(key)) {
+        if ((min === '-inf' || score >= Number(min)) && score <= Number(max)) {
+          set(key).delete(member);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+    async zcard(key) {
+      return set(key).size;
+    },
+    async eval() {
+      throw new Error('Scripts are not supported by the stand-in');
+    },
+  };
+}
+
+let store: NonceStore;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  store = createRedisNonceStore(createFakeRedis());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRedisNonceStore', () => {
+  it('consumes a nonce exactly once', async () => {
+    await store.add('abc', 60_000);
+
+    expect(await store.has('abc')).toBe(true);
+    expect(await Promise.all([store.consume('abc'), store.consume('abc')])).toEqual([true, false]);
+    expect(await store.has('abc')).toBe(false);
+    expect(await store.consume('unknown')).toBe(false);
+  });
+
+  it('expires nonces and leaves them out of the count', async () => {
+    await store.add('old', 1_000);
+    await store.add('new', 60_000);
+    expect(await store.count()).toBe(2);
+
+    vi.setSystemTime(Date.now() + 2_000);
+    expect(await store.has('old')).toBe(false);
+    expect(await store.consume('old')).toBe(false);
+    expect(await store.count()).toBe(1);
+  });
+
+  it('counts outstanding nonces per client', async () => {
+    await store.add('a1', 60_000, '203.0.113.7');
+    await store.add('a2', 60_000, '203.0.113.7');
+    await store.add('b1', 60_000, '203.0.113.8');
+
+    expect(await store.count('203.0.113.7')).toBe(2);
+    await store.consume('a1');
+    expect(await store.count('203.0.113.7')).toBe(1);
+    expect(await store.count('203.0.113.8')).toBe(1);
+    expect(await store.count()).toBe(2);
+  });
+});
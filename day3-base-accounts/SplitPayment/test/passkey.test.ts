@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextResponse, type NextRequest } from 'next/server';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import type { AuditEntry } from '@/lib/audit';
+import { countOutstandingNonces } from '@/lib/auth';
+import { STEP_UP_WINDOW_MS } from '@/lib/passkeys';
+import { requireStepUp } from '@/lib/requireSession';
+import { grantRole } from '@/lib/roleStore';
+import { GET as readAuditLog } from '@/app/api/admin/audit/route';
+import { GET as getStatus } from '@/app/api/auth/passkey/route';
+import { GET as getRegisterOptions, POST as register } from '@/app/api/auth/passkey/register/route';
+import { GET as getStepUpOptions, POST as stepUp } from '@/app/api/auth/passkey/step-up/route';
+import { ORIGIN, createBrowser, resetAuth, signSiwe, type Browser } from './harness';
+import { createVirtualAuthenticator, type VirtualAuthenticator } from './virtualAuthenticator';
+
+/**
+ * Passkey step-up: register -> confirm -> requireStepUp, with a virtual authenticator
+ */
+
+let auditLog: AuditEntry[];
+let browser: Browser;
+let authenticator: VirtualAuthenticator;
+let wallet: ReturnType<typeof privateKeyToAccount>;
+
+// A route that needs a recent passkey confirmation
+async function sensitive(request: NextRequest) {
+  const auth = await requireStepUp(request);
+  if (auth instanceof NextResponse) return auth;
+  return NextResponse.json({ ok: true });
+}
+
+const callSensitive = () => browser.send(sensitive, '/api/sensitive', { method: 'POST', headers: browser.csrf() });
+
+function post(handler: typeof register, path: string, body: unknown) {
+  return browser.send(handler, path, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...browser.csrf() },
+    body: JSON.stringify(body),
+  });
+}
+
+// The first passkey needs a fresh signature from the signed-in wallet
+async function registerPasskey(signer: typeof wallet | null = wallet) {
+  const siwe = signer ? await signSiwe(browser, signer) : undefined;
+  const options = await (await browser.send(getRegisterOptions, '/api/auth/passkey/register')).json();
+  return post(register, '/api/auth/passkey/register', { response: authenticator.register(options), siwe });
+}
+
+async function assertion(overrides = {}) {
+  const options = await (await browser.send(getStepUpOptions, '/api/auth/passkey/step-up')).json();
+  return authenticator.authenticate(options, overrides);
+}
+
+beforeEach(async () => {
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('Network access in tests')));
+  ({ auditLog } = resetAuth());
+  browser = createBrowser();
+  authenticator = createVirtualAuthenticator(ORIGIN);
+  wallet = privateKeyToAccount(generatePrivateKey());
+  await browser.verify(await signSiwe(browser, wallet));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('registration', () => {
+  it('stores a passkey for the session address without stepping the session up', async () => {
+    const response = await registerPasskey();
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).id).toBe(authenticator.credentialId);
+    const status = await (await browser.send(getStatus, '/api/auth/passkey')).json();
+    expect(status.registered).toBe(true);
+    expect(status.stepUpExpiresAt).toBeNull();
+    expect((await callSensitive()).status).toBe(403);
+  });
+
+  it("needs a fresh signature from the session's wallet for the first passkey", async () => {
+    const withoutProof = await registerPasskey(null);
+    expect(withoutProof.status).toBe(403);
+    expect((await withoutProof.json()).code).toBe('WALLET_PROOF_REQUIRED');
+
+    const otherWallet = await registerPasskey(privateKeyToAccount(generatePrivateKey()));
+    expect(otherWallet.status).toBe(401);
+    expect((await otherWallet.json()).code).toBe('ADDRESS_MISMATCH');
+
+    const status = await (await browser.send(getStatus, '/api/auth/passkey')).json();
+    expect(status.registered).toBe(false);
+  });
+
+  it('needs a step-up to add a second passkey', async () => {
+    await registerPasskey();
+
+    const response = await browser.send(getRegisterOptions, '/api/auth/passkey/register');
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('STEP_UP_REQUIRED');
+  });
+});
+
+describe('step-up', () => {
+  it('is required until the session confirms, and lapses after the window', async () => {
+    expect((await callSensitive()).status).toBe(403);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await registerPasskey();
+    vi.setSystemTime(Date.now() + STEP_UP_WINDOW_MS + 1000);
+
+    const denied = await callSensitive();
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe('STEP_UP_REQUIRED');
+
+    const response = await post(stepUp, '/api/auth/passkey/step-up', await assertion());
+    expect(response.status).toBe(200);
+    expect((await response.json()).stepUpExpiresAt).toBe(Date.now() + STEP_UP_WINDOW_MS);
+    expect((await callSensitive()).status).toBe(200);
+  });
+
+  it('rejects an assertion made for another origin', async () => {
+    await registerPasskey();
+    const response = await post(stepUp, '/api/auth/passkey/step-up', await assertion({ origin: 'https://evil.example' }));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('PASSKEY_VERIFICATION_FAILED');
+    expect(auditLog.some((entry) => entry.event === 'passkey.failed')).toBe(true);
+  });
+
+  it('accepts an assertion only once', async () => {
+    await registerPasskey();
+    const body = await assertion();
+
+    expect((await post(stepUp, '/api/auth/passkey/step-up', body)).status).toBe(200);
+    expect((await post(stepUp, '/api/auth/passkey/step-up', body)).status).toBe(401);
+  });
+
+  it('limits challenges per session, apart from sign-in nonces', async () => {
+    await registerPasskey();
+    const outstanding = await countOutstandingNonces();
+
+    // Registration took one of the 10 per minute
+    for (let i = 0; i < 9; i++) {
+      expect((await browser.send(getStepUpOptions, '/api/auth/passkey/step-up')).status).toBe(200);
+    }
+    const limited = await browser.send(getStepUpOptions, '/api/auth/passkey/step-up');
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).code).toBe('RATE_LIMITED');
+    expect(await countOutstandingNonces()).toBe(outstanding);
+  });
+});
+
+describe('gated routes', () => {
+  it('needs a step-up to read the audit log', async () => {
+    await grantRole(wallet.address, 'admin');
+    await browser.verify(await signSiwe(browser, wallet));
+
+    const denied = await browser.send(readAuditLog, '/api/admin/audit');
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe('STEP_UP_REQUIRED');
+
+    await registerPasskey();
+    await post(stepUp, '/api/auth/passkey/step-up', await assertion());
+    // Past the gates: the test sink can't be queried
+    expect((await browser.send(readAuditLog, '/api/admin/audit')).status).toBe(501);
+  });
+
+  it('rejects an audit log limit that is not a positive whole number', async () => {
+    await grantRole(wallet.address, 'admin');
+    await browser.verify(await signSiwe(browser, wallet));
+    await registerPasskey();
+    await post(stepUp, '/api/auth/passkey/step-up', await assertion());
+
+    for (const limit of ['-1', '0', '1.5', 'all']) {
+      const response = await browser.send(readAuditLog, `/api/admin/audit?limit=${limit}`);
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe('INVALID_QUERY');
+    }
+    expect((await browser.send(readAuditLog, '/api/admin/audit?limit=5000')).status).toBe(501);
+  });
+});
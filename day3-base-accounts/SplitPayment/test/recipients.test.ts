@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import { checkRecipients, moveRecipient, newRecipient, recipientName } from '@/lib/recipients';
+
+/**
+ * Recipient list checks behind the split form
+ */
+
+const ALICE: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const rows = (...addresses: string[]) => addresses.map((address) => newRecipient(address));
+
+describe('checkRecipients', () => {
+  it('returns checksummed addresses in order for a valid list', () => {
+    const check = checkRecipients(rows(BOB.toLowerCase(), ` ${ALICE} `));
+
+    expect(check.valid).toBe(true);
+    expect(check.addresses).toEqual([BOB, ALICE]);
+  });
+
+  it('flags empty, invalid and duplicate rows', () => {
+    const badChecksum = ALICE.replace('C51812dc', 'c51812DC');
+    const check = checkRecipients(rows(ALICE, '', '0x1234', badChecksum, ALICE.toLowerCase()));
+
+    expect(check.errors).toEqual([null, 'REQUIRED', 'INVALID_ADDRESS', 'INVALID_ADDRESS', 'DUPLICATE']);
+    expect(check.valid).toBe(false);
+    expect(check.addresses).toEqual([]);
+  });
+
+  it('pays a name only at the address pinned for it', () => {
+    const alice = newRecipient('Alice.base.eth');
+
+    expect(checkRecipients([alice]).errors).toEqual(['RESOLVING']);
+    // Pinned for a name the row no longer holds
+    expect(checkRecipients([{ ...alice, resolved: { name: 'bob.base.eth', address: BOB } }]).errors).toEqual(['RESOLVING']);
+    expect(checkRecipients([{ ...alice, resolved: { name: 'alice.base.eth', address: null } }]).errors).toEqual(['UNRESOLVED']);
+
+    const check = checkRecipients([{ ...alice, resolved: { name: 'alice.base.eth', address: ALICE } }]);
+    expect(check.addresses).toEqual([ALICE]);
+  });
+
+  it('treats a name and its address as the same recipient', () => {
+    const alice = { ...newRecipient('alice.eth'), resolved: { name: 'alice.eth', address: ALICE } };
+
+    expect(checkRecipients([newRecipient(ALICE), alice]).errors).toEqual([null, 'DUPLICATE']);
+  });
+
+  it('enforces the maximum batch size', () => {
+    expect(checkRecipients(rows(ALICE, BOB), 1).listError).toMatch(/at most 1/);
+    expect(checkRecipients([]).listError).toMatch(/at least one/);
+  });
+});
+
+describe('moveRecipient', () => {
+  it('moves a row and ignores moves out of range', () => {
+    const list = ['a', 'b', 'c'];
+
+    expect(moveRecipient(list, 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveRecipient(list, 0, 3)).toBe(list);
+  });
+});
+
+describe('recipientName', () => {
+  it('normalizes names and ignores addresses and junk', () => {
+    expect(recipientName(' Vitalik.ETH ')).toBe('vitalik.eth');
+    expect(recipientName(ALICE)).toBeNull();
+    expect(recipientName('not a name')).toBeNull();
+    expect(recipientName('trailing.')).toBeNull();
+  });
+});
@@ -0,0 +1,337 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { NONCE_TTL_MS } from '@/lib/auth';
+import type { AuditEntry } from '@/lib/audit';
+import { createSignInMessage } from '@/lib/siwe';
+import { encodeRecap, recapForScopes, recapStatement, type ScopeGrants } from '@/lib/recaps';
+import { USDC_ADDRESS } from '@/lib/splitTokens';
+import { POST as sponsor } from '@/app/api/sponsor/route';
+import { GET as getNonce } from '@/app/api/auth/nonce/route';
+import { POST as verify } from '@/app/api/auth/verify/route';
+import { CHAIN_ID, ORIGIN, createBrowser, resetAuth, signSiwe, type Browser } from './harness';
+import type { MockChain } from './mockChain';
+
+/**
+ * SIWE sign-in, end to end: nonce -> signed message -> /api/auth/verify -> session
+ */
+
+let chain: MockChain;
+let auditLog: AuditEntry[];
+let browser: Browser;
+
+const newKey = () => privateKeyToAccount(generatePrivateKey());
+
+beforeEach(() => {
+  // Every chain read goes to the mock; anything else is a bug in the test
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('Network access in tests')));
+  ({ chain, auditLog } = resetAuth());
+  browser = createBrowser();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+async function expectRejected(response: Response, status: number, code: string) {
+  expect(response.status).toBe(status);
+  expect((await response.json()).code).toBe(code);
+  expect(auditLog.some((entry) => entry.event === 'verify.failed' && entry.reason === code)).toBe(true);
+}
+
+describe('signature types', () => {
+  it('signs in an EOA', async () => {
+    const account = newKey();
+    const response = await browser.verify(await signSiwe(browser, account));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.address).toBe(account.address);
+    expect(body.addresses).toEqual([account.address]);
+    expect((await browser.session()).status).toBe(200);
+  });
+
+  it('signs in an injected wallet with the message the app builds', async () => {
+    // useAuth signs with personal_sign when the wallet isn't Base Account
+    const account = newKey();
+    const scopes = { 'splits/store': {} };
+    const message = createSignInMessage({
+      address: account.address,
+      chainId: CHAIN_ID,
+      nonce: await browser.nonce(),
+      origin: ORIGIN,
+      scopes,
+    });
+    const response = await browser.verify({
+      address: account.address,
+      message,
+      signature: await account.signMessage({ message }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.addresses).toEqual([account.address]);
+    expect(body.scopes).toEqual(scopes);
+  });
+
+  it('signs in a deployed smart wallet (ERC-1271)', async () => {
+    const wallet = chain.addSmartWallet(newKey());
+    const response = await browser.verify(await signSiwe(browser, wallet));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).address).toBe(wallet.address);
+  });
+
+  it('signs in an undeployed smart wallet (ERC-6492)', async () => {
+    const wallet = chain.addSmartWallet(newKey(), { deployed: false });
+    const response = await browser.verify(await signSiwe(browser, wallet));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).address).toBe(wallet.address);
+  });
+
+  it("rejects a smart wallet signature from a key that doesn't own it", async () => {
+    const wallet = chain.addSmartWallet(newKey());
+    const body = await signSiwe(browser, wallet);
+    body.signature = await newKey().signMessage({ message: body.message });
+
+    await expectRejected(await browser.verify(body), 401, 'INVALID_SIGNATURE');
+  });
+
+  it("rejects an EOA signature for an address it doesn't recover to", async () => {
+    const body = await signSiwe(browser, newKey());
+    body.signature = await newKey().signMessage({ message: body.message });
+
+    await expectRejected(await browser.verify(body), 401, 'INVALID_SIGNATURE');
+  });
+});
+
+describe('request body', () => {
+  it('rejects a body that is not a JSON object', async () => {
+    for (const body of ['null', '[]', '"0x"', 'not json']) {
+      const response = await browser.send(verify, '/api/auth/verify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body,
+      });
+      await expectRejected(response, 400, 'MISSING_FIELDS');
+    }
+  });
+});
+
+describe('replay', () => {
+  it('accepts a signed message only once', async () => {
+    const body = await signSiwe(browser, newKey());
+    // Sign-in clears the nonce cookie; an attacker would replay a captured one
+    const nonceCookies = new Map(browser.cookies);
+
+    expect((await browser.verify(body)).status).toBe(200);
+    await expectRejected(await browser.verify(body), 401, 'NONCE_COOKIE_MISMATCH');
+
+    const attacker = createBrowser('203.0.113.8');
+    nonceCookies.forEach((value, name) => attacker.cookies.set(name, value));
+    await expectRejected(await attacker.verify(body), 401, 'INVALID_NONCE');
+  });
+
+  it('rejects a nonce issued to another browser', async () => {
+    const body = await signSiwe(browser, newKey());
+
+    await expectRejected(await createBrowser('203.0.113.8').verify(body), 401, 'NONCE_COOKIE_MISMATCH');
+  });
+});
+
+describe('expired nonces', () => {
+  it('rejects a nonce past its TTL and audits the expiry', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const body = await signSiwe(browser, newKey());
+    vi.setSystemTime(Date.now() + NONCE_TTL_MS + 1000);
+
+    await expectRejected(await browser.verify(body), 401, 'INVALID_NONCE');
+    expect(auditLog.some((entry) => entry.event === 'nonce.expired')).toBe(true);
+  });
+
+  it('rejects a message past its expiration time', async () => {
+    const body = await signSiwe(browser, newKey(), { expirationTime: new Date(Date.now() - 1000) });
+
+    await expectRejected(await browser.verify(body), 401, 'MESSAGE_EXPIRED');
+  });
+});
+
+describe('nonce limits', () => {
+  const requestNonces = async (from: Browser, count: number) => {
+    const statuses = [];
+    for (let i = 0; i < count; i++) {
+      statuses.push((await from.send(getNonce, '/api/auth/nonce')).status);
+    }
+    return statuses;
+  };
+
+  it('limits by the IP the proxy saw, not the one the client claims', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    // The client rotates a forged X-Forwarded-For entry; the proxy appends the real IP
+    for (let i = 0; i < 10; i++) {
+      expect(await requestNonces(createBrowser(`198.51.100.${i}, 203.0.113.7`), 1)).toEqual([200]);
+    }
+    expect(await requestNonces(createBrowser('198.51.100.99, 203.0.113.7'), 1)).toEqual([429]);
+  });
+
+  it('ignores X-Forwarded-For without a trusted proxy', async () => {
+    // No proxy: the client wrote the header, so rotating it does not reset the limit
+    for (let i = 0; i < 10; i++) {
+      expect(await requestNonces(createBrowser(`198.51.100.${i}`), 1)).toEqual([200]);
+    }
+    expect(await requestNonces(createBrowser('198.51.100.99'), 1)).toEqual([429]);
+  });
+
+  it('caps outstanding nonces per client', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    expect(await requestNonces(browser, 10)).toEqual(Array(10).fill(200));
+    vi.setSystemTime(Date.now() + 60_000);
+    expect(await requestNonces(browser, 10)).toEqual(Array(10).fill(200));
+    vi.setSystemTime(Date.now() + 60_000);
+
+    expect(await requestNonces(browser, 1)).toEqual([429]);
+    expect(auditLog.some((entry) => entry.reason === 'NONCE_CAP_REACHED')).toBe(true);
+    expect(await requestNonces(createBrowser('203.0.113.8'), 1)).toEqual([200]);
+  });
+});
+
+describe('message binding', () => {
+  it('rejects a message for another domain', async () => {
+    const body = await signSiwe(browser, newKey(), { domain: 'evil.example' });
+
+    await expectRejected(await browser.verify(body), 401, 'DOMAIN_MISMATCH');
+  });
+
+  it('ignores a forwarded host unless the app is behind a trusted proxy', async () => {
+    const forged = async () => {
+      const body = await signSiwe(browser, newKey(), { domain: 'evil.example', uri: 'https://evil.example' });
+      return browser.send(verify, '/api/auth/verify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-forwarded-host': 'evil.example', 'x-forwarded-proto': 'https' },
+        body: JSON.stringify(body),
+      });
+    };
+
+    await expectRejected(await forged(), 401, 'DOMAIN_MISMATCH');
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect((await forged()).status).toBe(200);
+  });
+
+  it('binds messages to APP_URL when it is set', async () => {
+    vi.stubEnv('APP_URL', 'https://split.example');
+
+    await expectRejected(await browser.verify(await signSiwe(browser, newKey())), 401, 'DOMAIN_MISMATCH');
+
+    const body = await signSiwe(browser, newKey(), { domain: 'split.example', uri: 'https://split.example' });
+    expect((await browser.verify(body)).status).toBe(200);
+  });
+
+  it('rejects a message for another URI', async () => {
+    const body = await signSiwe(browser, newKey(), { uri: 'https://evil.example' });
+
+    await expectRejected(await browser.verify(body), 401, 'URI_MISMATCH');
+  });
+
+  it('rejects a message changed after signing, without spending the nonce', async () => {
+    const body = await signSiwe(browser, newKey());
+    const tampered = { ...body, message: body.message.replace('Sign in to SplitPayment', 'Transfer everything') };
+
+    await expectRejected(await browser.verify(tampered), 401, 'INVALID_SIGNATURE');
+    // The original message still works: the nonce is consumed only after a valid signature
+    expect((await browser.verify(body)).status).toBe(200);
+  });
+
+  it('rejects a message signed for another address', async () => {
+    const body = await signSiwe(browser, newKey());
+
+    await expectRejected(await browser.verify({ ...body, address: newKey().address }), 401, 'ADDRESS_MISMATCH');
+  });
+
+  it('rejects a chain that is not allowed', async () => {
+    const body = await signSiwe(browser, newKey(), { chainId: 1 });
+
+    await expectRejected(await browser.verify(body), 401, 'CHAIN_NOT_ALLOWED');
+  });
+});
+
+describe('sign-out', () => {
+  it('invalidates the session cookie', async () => {
+    await browser.verify(await signSiwe(browser, newKey()));
+    const sessionCookies = new Map(browser.cookies);
+
+    expect((await browser.signOut()).status).toBe(200);
+    expect((await browser.session()).status).toBe(401);
+
+    // Replaying the old cookies doesn't bring the session back
+    sessionCookies.forEach((value, name) => browser.cookies.set(name, value));
+    expect((await browser.session()).status).toBe(401);
+  });
+
+  it('requires the CSRF header', async () => {
+    await browser.verify(await signSiwe(browser, newKey()));
+    browser.cookies.delete('csrf_token');
+
+    expect((await browser.signOut()).status).toBe(403);
+    expect((await browser.session()).status).toBe(200);
+  });
+});
+
+describe('ReCaps', () => {
+  const withScopes = (scopes: ScopeGrants, resource = ORIGIN) => {
+    const recap = recapForScopes(resource, scopes);
+    return { statement: recapStatement(recap), resources: [encodeRecap(recap)] };
+  };
+
+  it('stores the granted scopes on the session', async () => {
+    const scopes = { 'splits/store': {}, 'paymaster/sponsor': { maxPerDay: 2 } };
+    const response = await browser.verify(await signSiwe(browser, newKey(), withScopes(scopes)));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).scopes).toEqual(scopes);
+    expect((await (await browser.session()).json()).scopes).toEqual(scopes);
+  });
+
+  it('grants nothing without a ReCap', async () => {
+    await browser.verify(await signSiwe(browser, newKey()));
+
+    expect((await (await browser.session()).json()).scopes).toEqual({});
+  });
+
+  it("rejects a ReCap the statement doesn't describe", async () => {
+    const body = await signSiwe(browser, newKey(), {
+      ...withScopes({ 'paymaster/sponsor': { maxPerDay: 1000 } }),
+      statement: 'Sign in to SplitPayment',
+    });
+
+    await expectRejected(await browser.verify(body), 400, 'INVALID_RECAP');
+  });
+
+  it('rejects a ReCap for another origin', async () => {
+    const body = await signSiwe(browser, newKey(), withScopes({ 'splits/store': {} }, 'https://evil.example'));
+
+    await expectRejected(await browser.verify(body), 400, 'INVALID_RECAP');
+  });
+
+  it('lets routes check a scope and its caveats', async () => {
+    vi.stubEnv('PAYMASTER_URL', 'https://paymaster.example/rpc');
+    const sponsored = () => browser.send(sponsor, '/api/sponsor', { method: 'POST', headers: browser.csrf() });
+
+    await browser.verify(await signSiwe(browser, newKey()));
+    const denied = await sponsored();
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe('SCOPE_REQUIRED');
+
+    // Sponsorship also needs the usdcHolder claim: 1 USDC
+    const holder = newKey();
+    chain.setTokenBalance(USDC_ADDRESS, holder.address, BigInt(1_000_000));
+    await browser.verify(await signSiwe(browser, holder, withScopes({ 'paymaster/sponsor': { maxPerDay: 1 } })));
+    const allowed = await sponsored();
+    expect(allowed.status).toBe(200);
+    // A ticket for this app's paymaster proxy; the paymaster URL stays on the server
+    expect((await allowed.json()).url).toMatch(new RegExp(`^${ORIGIN}/api/sponsor/paymaster\\?ticket=`));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { exportRecipientCsv, exportSplitsCsv, importRecipientCsv } from '@/lib/splitCsv';
+import { USDC_ADDRESS } from '@/lib/splitTokens';
+
+/**
+ * CSV import and export of recipient lists and completed splits
+ */
+
+const ALICE: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL: Address = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+const resolveName = async (name: string) => (name === 'bob.base.eth' ? BOB : null);
+
+describe('parseCsv / toCsv', () => {
+  it('reads quoted fields, CRLF line endings and skips blank lines', () => {
+    const rows = parseCsv('\uFEFFa,"b, ""c"""\r\n\r\n"multi\nline",d\n');
+
+    expect(rows).toEqual([
+      { line: 1, cells: ['a', 'b, "c"'] },
+      { line: 3, cells: ['multi\nline', 'd'] },
+    ]);
+    expect(() => parseCsv('a,"b')).toThrow(/Unterminated/);
+  });
+
+  it('quotes when needed and defuses formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', '=SUM(A1)', BigInt(5), null]])).toBe('"a,b","say ""hi""",\'=SUM(A1),5,\r\n');
+  });
+});
+
+describe('importRecipientCsv', () => {
+  it('imports valid lines and reports every problem by line', async () => {
+    const csv = [
+      'recipient,share,label',
+      `${ALICE},2,Rent`,
+      'bob.base.eth,1',
+      'nobody.eth,1',
+      '0x1234,1',
+      `${ALICE.toLowerCase()},1`,
+      `${CAROL},two`,
+    ].join('\n');
+
+    const { rows, report } = await importRecipientCsv(csv, { mode: 'shares', decimals: 18, resolveName });
+
+    expect(rows.map((row) => [row.address, row.value, row.label, row.resolved?.address])).toEqual([
+      [ALICE, '2', 'Rent', undefined],
+      ['bob.base.eth', '1', undefined, BOB],
+    ]);
+    expect(report.map((line) => [line.line, line.error])).toEqual([
+      [2, null],
+      [3, null],
+      [4, 'UNRESOLVED'],
+      [5, 'INVALID_ADDRESS'],
+      [6, 'DUPLICATE'],
+      [7, 'INVALID_VALUE'],
+    ]);
+    expect(report[4].message).toBe('Same recipient as line 2');
+  });
+
+  it('checks values against the split mode and token decimals', async () => {
+    const csv = `${ALICE},1.5\n${BOB},1.1234567\n${CAROL}`;
+
+    const fixed = await importRecipientCsv(csv, { mode: 'fixed', decimals: 6, resolveName });
+    expect(fixed.report.map((line) => line.error)).toEqual([null, 'INVALID_VALUE', 'INVALID_VALUE']);
+
+    const equal = await importRecipientCsv(csv, { mode: 'equal', decimals: 6, resolveName });
+    expect(equal.rows).toHaveLength(3);
+  });
+
+  it('stops at the maximum batch size', async () => {
+    const { rows, report } = await importRecipientCsv(`${ALICE}\n${BOB}`, {
+      mode: 'equal',
+      decimals: 18,
+      resolveName,
+      maxRecipients: 1,
+    });
+
+    expect(rows).toHaveLength(1);
+    expect(report[1].error).toBe('TOO_MANY');
+  });
+
+  it('reads back an exported list', async () => {
+    const { rows } = await importRecipientCsv(`${ALICE},60,Rent\nbob.base.eth,40`, {
+      mode: 'percentage',
+      decimals: 18,
+      resolveName,
+    });
+    const csv = exportRecipientCsv(rows, 'percentage');
+
+    expect(csv).toBe(`recipient,percentage,label,address\r\n${ALICE},60,Rent,${ALICE}\r\nbob.base.eth,40,,${BOB}\r\n`);
+
+    const again = await importRecipientCsv(csv, { mode: 'percentage', decimals: 18, resolveName });
+    expect(again.report.every((line) => line.error === null)).toBe(true);
+    expect(again.rows.map((row) => row.value)).toEqual(['60', '40']);
+  });
+});
+
+describe('exportSplitsCsv', () => {
+  it('writes one line per payment with formatted and exact amounts', () => {
+    const csv = exportSplitsCsv([
+      {
+        txHash: '0xabc',
+        token: { address: USDC_ADDRESS, symbol: 'USDC', decimals: 6 },
+        recipients: [{ address: BOB, name: 'bob.base.eth', label: 'Rent', amount: BigInt(1500000) }],
+        completedAt: Date.UTC(2026, 0, 2),
+      },
+    ]);
+
+    expect(parseCsv(csv)[1].cells).toEqual([
+      '2026-01-02T00:00:00.000Z',
+      '0xabc',
+      'USDC',
+      USDC_ADDRESS,
+      BOB,
+      'bob.base.eth',
+      'Rent',
+      '1.5',
+      '1500000',
+    ]);
+  });
+});
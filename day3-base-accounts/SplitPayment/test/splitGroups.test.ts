@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { encodeRecap, recapForScopes, recapStatement } from '@/lib/recaps';
+import { checkSplitGroup } from '@/lib/splitGroups';
+import { ETH, USDC_ADDRESS } from '@/lib/splitTokens';
+import { GET as listGroups, POST as createGroup } from '@/app/api/splits/groups/route';
+import { GET as getGroup, PUT as updateGroup, DELETE as deleteGroup } from '@/app/api/splits/groups/[id]/route';
+import { GET as getRegisterOptions, POST as register } from '@/app/api/auth/passkey/register/route';
+import { GET as getStepUpOptions, POST as stepUp } from '@/app/api/auth/passkey/step-up/route';
+import { ORIGIN, createBrowser, resetAuth, signSiwe, type Browser } from './harness';
+import { createVirtualAuthenticator } from './virtualAuthenticator';
+
+/**
+ * Saved split groups: validation and the /api/splits/groups routes
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+const rent = {
+  name: 'House rent',
+  mode: 'percentage',
+  total: '0.3',
+  token: ETH,
+  recipients: [
+    { recipient: ALICE, value: '60', label: 'Alice' },
+    { recipient: 'bob.base.eth', value: '40' },
+  ],
+};
+
+let browser: Browser;
+let wallet: ReturnType<typeof privateKeyToAccount>;
+
+const withStore = () => {
+  const recap = recapForScopes(ORIGIN, { 'splits/store': {} });
+  return { statement: recapStatement(recap), resources: [encodeRecap(recap)] };
+};
+
+const signIn = async (scopes = withStore()) => {
+  wallet = privateKeyToAccount(generatePrivateKey());
+  return browser.verify(await signSiwe(browser, wallet, scopes));
+};
+
+const withId = (handler: typeof getGroup, id: string) => (request: NextRequest) =>
+  handler(request, { params: Promise.resolve({ id }) });
+
+function send(handler: (request: NextRequest) => Promise<Response>, path: string, method: string, body?: unknown) {
+  return browser.send(handler, path, {
+    method,
+    headers: { 'content-type': 'application/json', ...browser.csrf() },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const create = (body: unknown = rent) => send(createGroup, '/api/splits/groups', 'POST', body);
+const list = async () => (await (await browser.send(listGroups, '/api/splits/groups')).json()).groups;
+const update = (id: string, body: unknown) => send(withId(updateGroup, id), `/api/splits/groups/${id}`, 'PUT', body);
+const remove = (id: string) => send(withId(deleteGroup, id), `/api/splits/groups/${id}`, 'DELETE');
+
+// Add a passkey (the first needs a wallet signature), then confirm with it
+async function stepUpSession() {
+  const authenticator = createVirtualAuthenticator(ORIGIN);
+  const siwe = await signSiwe(browser, wallet);
+  const options = await (await browser.send(getRegisterOptions, '/api/auth/passkey/register')).json();
+  await send(register, '/api/auth/passkey/register', 'POST', { response: authenticator.register(options), siwe });
+  const assertion = await (await browser.send(getStepUpOptions, '/api/auth/passkey/step-up')).json();
+  await send(stepUp, '/api/auth/passkey/step-up', 'POST', await authenticator.authenticate(assertion));
+}
+
+beforeEach(async () => {
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('Network access in tests')));
+  resetAuth();
+  browser = createBrowser();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('checkSplitGroup', () => {
+  it('cleans up a group for storage', () => {
+    const check = checkSplitGroup({
+      ...rent,
+      name: '  House rent ',
+      recipients: [
+        { recipient: ALICE.toLowerCase(), value: ' 60 ', label: ' Alice ' },
+        { recipient: 'Bob.Base.eth', value: '40', label: '' },
+      ],
+    });
+
+    expect(check).toEqual({
+      ok: true,
+      group: {
+        ...rent,
+        recipients: [
+          { recipient: ALICE, value: '60', label: 'Alice' },
+          { recipient: 'bob.base.eth', value: '40' },
+        ],
+      },
+    });
+  });
+
+  it('rejects bad recipients, values and tokens', () => {
+    const reject = (change: object) => {
+      const check = checkSplitGroup({ ...rent, ...change });
+      return check.ok ? null : check.error;
+    };
+
+    expect(reject({ recipients: [{ recipient: '0x1234', value: '100' }] })).toMatch(/not a valid address/);
+    expect(reject({ recipients: [{ recipient: ALICE, value: '50' }, { recipient: ALICE, value: '50' }] })).toMatch(/already/);
+    expect(reject({ recipients: [{ recipient: ALICE, value: '60' }, { recipient: BOB, value: '30' }] })).toMatch(/not 100%/);
+    expect(reject({ mode: 'fixed', token: { address: USDC_ADDRESS, symbol: 'USDC', decimals: 6 }, recipients: [{ recipient: ALICE, value: '1.1234567' }] })).toMatch(/not a valid amount/);
+    expect(reject({ token: { address: '0x1234', symbol: 'X', decimals: 18 } })).toBe('Invalid token');
+    expect(reject({ name: ' ' })).toMatch(/Name the group/);
+  });
+});
+
+describe('/api/splits/groups', () => {
+  it('needs the splits/store scope', async () => {
+    await signIn({ statement: 'Sign in to SplitPayment', resources: [] });
+
+    const response = await browser.send(listGroups, '/api/splits/groups');
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('SCOPE_REQUIRED');
+  });
+
+  it('saves, lists, reads and deletes groups', async () => {
+    await signIn();
+
+    const created = await create();
+    expect(created.status).toBe(201);
+    const { group } = await created.json();
+    expect(group).toMatchObject(rent);
+    expect(await list()).toEqual([group]);
+
+    const read = await browser.send(withId(getGroup, group.id), `/api/splits/groups/${group.id}`);
+    expect((await read.json()).group).toEqual(group);
+
+    expect((await create({ ...rent, name: 'house RENT' })).status).toBe(409);
+    expect((await create({ ...rent, mode: 'split' })).status).toBe(400);
+
+    await stepUpSession();
+    const deleted = await remove(group.id);
+    expect(deleted.status).toBe(200);
+    expect(await list()).toEqual([]);
+  });
+
+  it("keeps each wallet's groups to itself", async () => {
+    await signIn();
+    const { group } = await (await create()).json();
+
+    await signIn();
+    expect(await list()).toEqual([]);
+    const read = await browser.send(withId(getGroup, group.id), `/api/splits/groups/${group.id}`);
+    expect(read.status).toBe(404);
+    expect((await read.json()).code).toBe('SPLIT_GROUP_NOT_FOUND');
+    expect((await update(group.id, rent)).status).toBe(404);
+    expect((await remove(group.id)).status).toBe(404);
+  });
+
+  it('needs a passkey step-up to change what a group pays out', async () => {
+    await signIn();
+    const { group } = await (await create()).json();
+
+    const renamed = await update(group.id, {
+      ...rent,
+      name: 'Rent',
+      recipients: [{ ...rent.recipients[1], label: 'Bob' }, rent.recipients[0]],
+    });
+    expect(renamed.status).toBe(200);
+    expect((await renamed.json()).group.name).toBe('Rent');
+
+    const reweighted = { ...rent, recipients: [{ recipient: ALICE, value: '99' }, { recipient: 'bob.base.eth', value: '1' }] };
+    const changed = { ...rent, recipients: [{ recipient: ALICE, value: '60' }, { recipient: CAROL, value: '40' }] };
+    for (const change of [reweighted, changed, { ...rent, total: '3' }, { ...rent, mode: 'shares' }]) {
+      const denied = await update(group.id, change);
+      expect(denied.status).toBe(403);
+      expect((await denied.json()).code).toBe('STEP_UP_REQUIRED');
+    }
+
+    await stepUpSession();
+    const allowed = await update(group.id, changed);
+    expect(allowed.status).toBe(200);
+    expect((await list())[0].recipients.map((recipient: { recipient: string }) => recipient.recipient)).toEqual([
+      ALICE,
+      CAROL,
+    ]);
+  });
+
+  it("needs a step-up to delete a group, so it can't be swapped for a new one", async () => {
+    await signIn();
+    const { group } = await (await create()).json();
+
+    const denied = await remove(group.id);
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe('STEP_UP_REQUIRED');
+    // Still there, so its name can't be taken by a group paying someone else
+    const swapped = { ...rent, recipients: [{ recipient: CAROL, value: '100' }] };
+    expect((await create(swapped)).status).toBe(409);
+    expect(await list()).toEqual([group]);
+
+    await stepUpSession();
+    expect((await remove(group.id)).status).toBe(200);
+    expect((await create(swapped)).status).toBe(201);
+  });
+});
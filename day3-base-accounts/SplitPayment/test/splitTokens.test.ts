@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFunctionData, erc20Abi } from 'viem';
+import { ETH, USDC_ADDRESS, buildSplitCalls, parseTokenLimits, splitSize } from '@/lib/splitTokens';
+
+/**
+ * Batch calls for ETH and ERC-20 splits, and large-split limits
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('buildSplitCalls', () => {
+  it('sends ETH as the call value', () => {
+    const calls = buildSplitCalls(ETH, [ALICE, BOB], [BigInt(5), BigInt(255)]);
+
+    expect(calls).toEqual([
+      { to: ALICE, value: '0x5', data: '0x' },
+      { to: BOB, value: '0xff', data: '0x' },
+    ]);
+  });
+
+  it('calls transfer on the token for ERC-20 splits', () => {
+    const usdc = { address: USDC_ADDRESS, symbol: 'USDC', decimals: 6 };
+    const calls = buildSplitCalls(usdc, [ALICE, BOB], [BigInt(1500000), BigInt(250000)]);
+
+    expect(calls.map(({ to, value }) => ({ to, value }))).toEqual([
+      { to: USDC_ADDRESS, value: '0x0' },
+      { to: USDC_ADDRESS, value: '0x0' },
+    ]);
+    expect(calls.map(({ data }) => decodeFunctionData({ abi: erc20Abi, data }))).toEqual([
+      { functionName: 'transfer', args: [ALICE, BigInt(1500000)] },
+      { functionName: 'transfer', args: [BOB, BigInt(250000)] },
+    ]);
+  });
+});
+
+describe('splitSize', () => {
+  const usdc = { address: USDC_ADDRESS, symbol: 'USDC', decimals: 6 };
+  const other = { address: BOB as `0x${string}`, symbol: 'DEV', decimals: 18 };
+
+  it('compares the total with the token limit, whatever the address case', () => {
+    const limits = parseTokenLimits(`native:0.1, ${USDC_ADDRESS.toLowerCase()}:250`);
+
+    expect(splitSize(ETH, BigInt('100000000000000000'), limits)).toBe('small');
+    expect(splitSize(ETH, BigInt('100000000000000001'), limits)).toBe('large');
+    expect(splitSize(usdc, BigInt(250000001), limits)).toBe('large');
+  });
+
+  it('leaves tokens without a limit unpriced instead of large', () => {
+    expect(splitSize(other, BigInt(1), {})).toBe('unpriced');
+    expect(splitSize(other, BigInt(1), parseTokenLimits(`${BOB}:5`))).toBe('small');
+  });
+
+  it('adds configured limits to the defaults and skips bad entries', () => {
+    const limits = parseTokenLimits('native:0.5,0x1234:10,nonsense,' + BOB + ':lots', { native: '0.1', usdc: '250' });
+
+    expect(limits).toEqual({ native: '0.5', usdc: '250' });
+  });
+});
+
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { allocate, calculateSplit } from '@/lib/splits';
+
+/**
+ * Split calculator: exact amounts in base units
+ */
+
+const amounts = (result: ReturnType<typeof calculateSplit>) => (result.ok ? result.amounts : result.code);
+
+describe('calculateSplit', () => {
+  it('splits a total equally, the remainder going to the first recipients', () => {
+    const result = calculateSplit({ mode: 'equal', total: '0.00000000000000001', values: ['', '', ''], decimals: 18 });
+
+    expect(amounts(result)).toEqual([BigInt(4), BigInt(3), BigInt(3)]);
+  });
+
+  it('splits by percentage and always adds up to the total', () => {
+    const result = calculateSplit({ mode: 'percentage', total: '1', values: ['33.33', '33.33', '33.34'], decimals: 6 });
+
+    expect(amounts(result)).toEqual([BigInt(333300), BigInt(333300), BigInt(333400)]);
+    expect(result.ok && result.total).toBe(BigInt(1000000));
+  });
+
+  it('rejects percentages that do not add up to 100', () => {
+    const result = calculateSplit({ mode: 'percentage', total: '1', values: ['50', '40'], decimals: 18 });
+
+    expect(result.ok ? null : result.message).toBe('Percentages add up to 90%, not 100%');
+  });
+
+  it('splits by shares', () => {
+    const result = calculateSplit({ mode: 'shares', total: '0.000004', values: ['2', '1', '1'], decimals: 6 });
+
+    expect(amounts(result)).toEqual([BigInt(2), BigInt(1), BigInt(1)]);
+  });
+
+  it('takes fixed amounts as they are', () => {
+    const result = calculateSplit({ mode: 'fixed', values: ['1.5', '0.25'], decimals: 6 });
+
+    expect(amounts(result)).toEqual([BigInt(1500000), BigInt(250000)]);
+    expect(result.ok && result.total).toBe(BigInt(1750000));
+  });
+
+  it('points at the recipient whose value is wrong', () => {
+    expect(calculateSplit({ mode: 'fixed', values: ['1', '1e3'], decimals: 6 })).toMatchObject({ code: 'INVALID_VALUE', index: 1 });
+    expect(calculateSplit({ mode: 'fixed', values: ['1', '0.0000001'], decimals: 6 })).toMatchObject({ code: 'INVALID_VALUE', index: 1 });
+    expect(calculateSplit({ mode: 'shares', total: '1', values: ['1', '0'], decimals: 6 })).toMatchObject({ code: 'INVALID_VALUE', index: 1 });
+    expect(calculateSplit({ mode: 'equal', total: '0.000001', values: ['', ''], decimals: 6 })).toMatchObject({ code: 'ZERO_AMOUNT', index: 1 });
+  });
+});
+
+describe('allocate', () => {
+  it('gives leftover units to the largest fractions, ties to the earlier recipient', () => {
+    // 11 * [1, 2, 2] / 5 = 2.2, 4.4, 4.4: the leftover unit goes to the first .4
+    expect(allocate(BigInt(11), [BigInt(1), BigInt(2), BigInt(2)])).toEqual([BigInt(2), BigInt(5), BigInt(4)]);
+    // Exact splits have nothing left over
+    expect(allocate(BigInt(7), [BigInt(1), BigInt(1), BigInt(5)])).toEqual([BigInt(1), BigInt(1), BigInt(5)]);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { encodeRecap, recapForScopes, recapStatement } from '@/lib/recaps';
+import { SPONSOR_TICKET_TTL_MS } from '@/lib/sponsor';
+import { USDC_ADDRESS } from '@/lib/splitTokens';
+import { POST as sponsor } from '@/app/api/sponsor/route';
+import { POST as paymaster } from '@/app/api/sponsor/paymaster/route';
+import { ORIGIN, createBrowser, resetAuth, signSiwe, type Browser } from './harness';
+import type { MockChain } from './mockChain';
+
+/**
+ * Gas sponsorship: POST /api/sponsor hands out a ticket, and the paymaster proxy
+ * forwards the wallet's ERC-7677 calls with it
+ */
+
+const PAYMASTER_URL = 'https://paymaster.example/rpc';
+
+let chain: MockChain;
+let browser: Browser;
+let wallet: ReturnType<typeof privateKeyToAccount>;
+let forwarded: { url: string; body: { method: string } }[];
+
+const withSponsor = (maxPerDay: number) => {
+  const recap = recapForScopes(ORIGIN, { 'paymaster/sponsor': { maxPerDay } });
+  return { statement: recapStatement(recap), resources: [encodeRecap(recap)] };
+};
+
+const requestTicket = () => browser.send(sponsor, '/api/sponsor', { method: 'POST', headers: browser.csrf() });
+
+async function ticketUrl(): Promise<string> {
+  return (await (await requestTicket()).json()).url;
+}
+
+// What the wallet sends: no cookies, just the URL it was given
+function call(url: string, method: string, sender: string = wallet.address) {
+  return paymaster(
+    new NextRequest(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [{ sender }, '0x0000000071727De22E5E9d8BAf0edAc6f37da032', '0x14a34'] }),
+    })
+  );
+}
+
+beforeEach(async () => {
+  vi.stubEnv('PAYMASTER_URL', PAYMASTER_URL);
+  forwarded = [];
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    forwarded.push({ url, body: JSON.parse(String(init.body)) });
+    return Response.json({ jsonrpc: '2.0', id: 1, result: { paymasterAndData: '0x1234' } });
+  });
+  ({ chain } = resetAuth());
+  browser = createBrowser();
+  wallet = privateKeyToAccount(generatePrivateKey());
+  // 1 USDC meets the usdcHolder claim, checked at sign-in
+  chain.setTokenBalance(USDC_ADDRESS, wallet.address, BigInt(1_000_000));
+  await browser.verify(await signSiwe(browser, wallet, withSponsor(1)));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('tickets', () => {
+  it('needs the USDC holder claim as well as the scope', async () => {
+    await browser.verify(await signSiwe(browser, privateKeyToAccount(generatePrivateKey()), withSponsor(1)));
+
+    const denied = await requestTicket();
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe('CLAIM_REQUIRED');
+  });
+});
+
+describe('paymaster proxy', () => {
+  it('forwards paymaster calls and counts each sponsored transaction', async () => {
+    const url = await ticketUrl();
+    expect(url).not.toContain('paymaster.example');
+
+    expect((await call(url, 'pm_getPaymasterStubData')).status).toBe(200);
+    const sponsored = await call(url, 'pm_getPaymasterData');
+    expect(sponsored.status).toBe(200);
+    expect((await sponsored.json()).result).toEqual({ paymasterAndData: '0x1234' });
+    expect(forwarded.map(({ url, body }) => [url, body.method])).toEqual([
+      [PAYMASTER_URL, 'pm_getPaymasterStubData'],
+      [PAYMASTER_URL, 'pm_getPaymasterData'],
+    ]);
+
+    // maxPerDay: 1, across tickets
+    const refused = await call(await ticketUrl(), 'pm_getPaymasterData');
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).error.message).toMatch(/up to 1 sponsored/);
+    expect(forwarded).toHaveLength(2);
+  });
+
+  it('sponsors only paymaster methods for the signed-in wallet', async () => {
+    const url = await ticketUrl();
+
+    expect((await call(url, 'eth_sendRawTransaction')).status).toBe(400);
+    expect((await call(url, 'pm_getPaymasterData', privateKeyToAccount(generatePrivateKey()).address)).status).toBe(403);
+    expect(forwarded).toEqual([]);
+  });
+
+  it('rejects tampered and expired tickets', async () => {
+    const url = new URL(await ticketUrl());
+    const forged = new URL(url);
+    forged.searchParams.set('ticket', url.searchParams.get('ticket')!.replace(':1:', ':1000:'));
+    expect((await call(forged.toString(), 'pm_getPaymasterData')).status).toBe(401);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + SPONSOR_TICKET_TTL_MS + 1000);
+    expect((await call(url.toString(), 'pm_getPaymasterData')).status).toBe(401);
+    expect(forwarded).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { REFRESH_GRACE_MS, createMemoryRefreshFamilyStore, issueTokens, rotateRefreshToken, setRefreshFamilyStore } from '@/lib/tokens';
+
+/**
+ * Refresh token rotation and reuse detection (stateless sessions)
+ */
+
+const subject = {
+  userId: 'user-1',
+  role: 'user' as const,
+  claims: [],
+  scopes: {},
+  address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  chainId: 84532,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  setRefreshFamilyStore(createMemoryRefreshFamilyStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rotateRefreshToken', () => {
+  it('lets two tabs refresh with the same token at the same moment', async () => {
+    const { refreshToken } = await issueTokens(subject);
+
+    const [first, second] = await Promise.all([rotateRefreshToken(refreshToken), rotateRefreshToken(refreshToken)]);
+    expect(first.ok && second.ok).toBe(true);
+
+    // Both hold the current generation, which keeps rotating normally
+    const next = second.ok ? await rotateRefreshToken(second.tokens.refreshToken) : null;
+    expect(next?.ok).toBe(true);
+  });
+
+  it('revokes the family when an old token is replayed after the grace window', async () => {
+    const { refreshToken } = await issueTokens(subject);
+    const rotated = await rotateRefreshToken(refreshToken);
+    expect(rotated.ok).toBe(true);
+
+    vi.setSystemTime(Date.now() + REFRESH_GRACE_MS + 1000);
+    expect(await rotateRefreshToken(refreshToken)).toEqual({ ok: false, code: 'REFRESH_TOKEN_REUSED' });
+    if (rotated.ok) {
+      expect(await rotateRefreshToken(rotated.tokens.refreshToken)).toEqual({ ok: false, code: 'INVALID_REFRESH_TOKEN' });
+    }
+  });
+
+  it('revokes the family for a generation older than the previous one', async () => {
+    const { refreshToken } = await issueTokens(subject);
+    const once = await rotateRefreshToken(refreshToken);
+    const twice = once.ok ? await rotateRefreshToken(once.tokens.refreshToken) : null;
+    expect(twice?.ok).toBe(true);
+
+    expect(await rotateRefreshToken(refreshToken)).toEqual({ ok: false, code: 'REFRESH_TOKEN_REUSED' });
+  });
+});
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { isoBase64URL, isoCBOR } from '@simplewebauthn/server/helpers';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+/**
+ * Virtual Authenticator
+ *
+ * A software passkey (P-256, "none" attestation) that answers the options the
+ * passkey routes hand out the way a browser's navigator.credentials would, so
+ * registration and step-up run through @simplewebauthn/server's real checks
+ *
+ * It always reports user presence and user verification, and counts signatures.
+ */
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL = 0x40;
+
+// COSE key labels and values for an ES256 key on P-256
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+const KTY_EC2 = 2;
+const ALG_ES256 = -7;
+const CRV_P256 = 1;
+
+export interface CeremonyOverrides {
+  /** Origin the "browser" reports in clientDataJSON */
+  origin?: string;
+}
+
+export interface VirtualAuthenticator {
+  credentialId: string;
+  /** Answer generateRegistrationOptions() output, as startRegistration would */
+  register(
+    options: PublicKeyCredentialCreationOptionsJSON,
+    overrides?: CeremonyOverrides
+  ): RegistrationResponseJSON;
+  /** Answer generateAuthenticationOptions() output, as startAuthentication would */
+  authenticate(
+    options: PublicKeyCredentialRequestOptionsJSON,
+    overrides?: CeremonyOverrides
+  ): AuthenticationResponseJSON;
+}
+
+type Bytes = Uint8Array<ArrayBuffer>;
+type CBORValue = Parameters<typeof isoCBOR.encode>[0];
+
+const sha256 = (data: Uint8Array | string): Bytes => new Uint8Array(crypto.createHash('sha256').update(data).digest());
+
+function concat(...parts: Uint8Array[]): Bytes {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint(value: number, bytes: number): Bytes {
+  const result = new Uint8Array(bytes);
+  for (let i = bytes - 1; i >= 0; i--) {
+    result[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  return result;
+}
+
+function clientData(type: string, challenge: string, origin: string): Bytes {
+  return new Uint8Array(Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false })));
+}
+
+/**
+ * @param origin - the site's origin, used unless a ceremony overrides it
+ */
+export function createVirtualAuthenticator(origin: string): VirtualAuthenticator {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const rawId = new Uint8Array(crypto.randomBytes(16));
+  const credentialId = isoBase64URL.fromBuffer(rawId);
+  let signCount = 0;
+
+  const coseKey = isoCBOR.encode(
+    new Map<number, CBORValue>([
+      [COSE_KTY, KTY_EC2],
+      [COSE_ALG, ALG_ES256],
+      [COSE_CRV, CRV_P256],
+      [COSE_X, isoBase64URL.toBuffer(jwk.x!)],
+      [COSE_Y, isoBase64URL.toBuffer(jwk.y!)],
+    ])
+  );
+
+  return {
+    credentialId,
+    register(options, overrides = {}) {
+      const authData = concat(
+        sha256(options.rp.id!),
+        Uint8Array.of(USER_PRESENT | USER_VERIFIED | ATTESTED_CREDENTIAL),
+        uint(signCount, 4),
+        new Uint8Array(16), // AAGUID, zero for "none" attestation
+        uint(rawId.length, 2),
+        rawId,
+        coseKey
+      );
+      const attestationObject = isoCBOR.encode(
+        new Map<string, CBORValue>([
+          ['fmt', 'none'],
+          ['attStmt', new Map()],
+          ['authData', authData],
+        ])
+      );
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: 'public-key',
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(
+            clientData('webauthn.create', options.challenge, overrides.origin ?? origin)
+          ),
+          attestationObject: isoBase64URL.fromBuffer(attestationObject),
+          transports: ['internal'],
+        },
+        clientExtensionResults: {},
+      };
+    },
+    authenticate(options, overrides = {}) {
+      signCount += 1;
+      const authData = concat(sha256(options.rpId!), Uint8Array.of(USER_PRESENT | USER_VERIFIED), uint(signCount, 4));
+      const clientDataJSON = clientData('webauthn.get', options.challenge, overrides.origin ?? origin);
+      // ES256 signatures are DER-encoded, which is what node produces for EC keys
+      const signature = crypto.sign('sha256', concat(authData, sha256(clientDataJSON)), privateKey);
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: 'public-key',
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(clientDataJSON),
+          authenticatorData: isoBase64URL.fromBuffer(authData),
+          signature: isoBase64URL.fromBuffer(new Uint8Array(signature)),
+        },
+        clientExtensionResults: {},
+      };
+    },
+  };
+}